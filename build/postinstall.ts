@@ -19,8 +19,11 @@ export async function copyStaticAssets(srcpaths: string[], dst: string): Promise
 }
 
 async function main() {
-	// Ship the tiktoken file in the dist bundle
-	await copyStaticAssets(['src/base/tokenizer/cl100k_base.tiktoken'], 'dist/base/tokenizer');
+	// Ship the tiktoken files in the dist bundle
+	await copyStaticAssets(
+		['src/base/tokenizer/cl100k_base.tiktoken', 'src/base/tokenizer/o200k_base.tiktoken'],
+		'dist/base/tokenizer'
+	);
 }
 
 main();
@@ -21,6 +21,10 @@ import {
 	MaterializedNode,
 	MaterializedChatMessageOpaque,
 	MaterializedChatMessageBreakpoint,
+	MaterializedChatMessageThinking,
+	MaterializedChatMessageDocument,
+	MaterializedChatMessageAudio,
+	MaterializedToolDefinition,
 } from './materialized';
 import { PromptMetadata } from './results';
 import { ITokenizer } from './tokenizer/tokenizer';
@@ -238,8 +242,12 @@ async function serializeMaterialized(
 			tokens: await materialized.upperBoundTokenCount(tokenizer),
 		};
 	} else if (
+		materialized instanceof MaterializedChatMessageDocument ||
+		materialized instanceof MaterializedChatMessageAudio ||
 		materialized instanceof MaterializedChatMessageOpaque ||
-		materialized instanceof MaterializedChatMessageBreakpoint
+		materialized instanceof MaterializedChatMessageBreakpoint ||
+		materialized instanceof MaterializedChatMessageThinking ||
+		materialized instanceof MaterializedToolDefinition
 	) {
 		// todo: add to visualizer
 		return undefined;
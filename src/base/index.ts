@@ -15,16 +15,27 @@ import { ChatMessage } from './output/openaiTypes';
 import { MetadataMap, PromptRenderer } from './promptRenderer';
 import { PromptReference } from './results';
 import { ITokenizer, StandaloneTokenizer, SimpleTokenizer } from './tokenizer/standalone-tokenizer';
-import { BasePromptElementProps, IChatEndpointInfo, PromptElementCtor } from './types';
+import { BasePromptElementProps, IChatEndpointInfo, PromptElementType } from './types';
 import { ChatDocumentContext } from './standalone-vscode-types';
 
 export * from './htmlTracer';
 export * as JSONTree from './jsonTypes';
 export * from './output/mode';
+export { createPromptContext, PromptContext, PromptContextProviderProps } from './promptContext';
 export * from './promptElements';
 export * from './results';
+export { BreakOnPreset } from './textBreaks';
 export { ITokenizer, StandaloneTokenizer, SimpleTokenizer } from './tokenizer/standalone-tokenizer';
+export {
+	CachingTokenizer,
+	CachingTokenizerOptions,
+	TokenLengthCache,
+} from './tokenizer/cachingTokenizer';
+export { ChatTemplateTokenizer } from './tokenizer/chatTemplateTokenizer';
+export { estimateImageTokens, getImageDimensions, ImageDimensions } from './tokenizer/imageTokens';
+export { WorkerTokenizer, WorkerTokenizerOptions } from './tokenizer/workerTokenizer';
 export * from './tracer';
+export * from './transcript';
 export * from './tsx-globals';
 export * from './standalone-types';
 export * from './types';
@@ -33,7 +44,13 @@ export * from './types';
 import './tsx';
 
 export { PromptElement } from './promptElement';
-export { MetadataMap, PromptRenderer, QueueItem, RenderPromptResult } from './promptRenderer';
+export {
+	MetadataMap,
+	PromptRenderEvent,
+	PromptRenderer,
+	QueueItem,
+	RenderPromptResult,
+} from './promptRenderer';
 
 /**
  * Renders a prompt element and returns the result.
@@ -46,10 +63,10 @@ export { MetadataMap, PromptRenderer, QueueItem, RenderPromptResult } from './pr
  * @param token - The cancellation token for cancelling the operation.
  * @param tokenizer - The tokenizer for tokenizing the chat response.
  * @param mode - The mode to render the chat messages in.
- * @returns A promise that resolves to an object containing the rendered {@link LanguageModelChatMessage chat messages}, token count, metadatas, used context, and references.
+ * @returns A promise that resolves to an object containing the rendered {@link LanguageModelChatMessage chat messages}, token count, metadatas, used context, references, and tools.
  */
 export async function renderPrompt<P extends BasePromptElementProps>(
-	ctor: PromptElementCtor<P, any>,
+	ctor: PromptElementType<P, any>,
 	props: P,
 	endpoint: IChatEndpointInfo,
 	tokenizerMetadata: ITokenizer<OutputMode.VSCode> | LanguageModelChat,
@@ -62,6 +79,7 @@ export async function renderPrompt<P extends BasePromptElementProps>(
 	metadata: MetadataMap;
 	usedContext: ChatDocumentContext[];
 	references: PromptReference[];
+	tools: Raw.ToolDefinition[];
 }>;
 /**
  * Renders a prompt element and returns the result.
@@ -74,10 +92,13 @@ export async function renderPrompt<P extends BasePromptElementProps>(
  * @param token - The cancellation token for cancelling the operation.
  * @param tokenizer - The tokenizer for tokenizing the chat response.
  * @param mode - The mode to render the chat messages in.
- * @returns A promise that resolves to an object containing the rendered {@link ChatMessage chat messages}, token count, metadatas, used context, and references.
+ * @returns A promise that resolves to an object containing the rendered {@link ChatMessage chat messages}, token count, metadatas, used context, references, and tools.
  */
-export async function renderPrompt<P extends BasePromptElementProps, TMode extends OutputMode>(
-	ctor: PromptElementCtor<P, any>,
+export async function renderPrompt<
+	P extends BasePromptElementProps,
+	TMode extends keyof ModeToChatMessageType
+>(
+	ctor: PromptElementType<P, any>,
 	props: P,
 	endpoint: IChatEndpointInfo,
 	tokenizerMetadata: ITokenizer<TMode>,
@@ -89,9 +110,10 @@ export async function renderPrompt<P extends BasePromptElementProps, TMode exten
 	metadata: MetadataMap;
 	usedContext: ChatDocumentContext[];
 	references: PromptReference[];
+	tools: Raw.ToolDefinition[];
 }>;
 export async function renderPrompt<P extends BasePromptElementProps>(
-	ctor: PromptElementCtor<P, any>,
+	ctor: PromptElementType<P, any>,
 	props: P,
 	endpoint: IChatEndpointInfo,
 	tokenizerMetadata: ITokenizer<OutputMode.VSCode> | LanguageModelChat,
@@ -104,6 +126,7 @@ export async function renderPrompt<P extends BasePromptElementProps>(
 	metadata: MetadataMap;
 	usedContext: ChatDocumentContext[];
 	references: PromptReference[];
+	tools: Raw.ToolDefinition[];
 }> {
 	let tokenizer =
 		'countTokens' in tokenizerMetadata
@@ -151,7 +174,7 @@ export const contentType = 'application/vnd.codechat.prompt+json.1';
  * @returns A promise that resolves to an object containing the serialized data.
  */
 export function renderElementJSON<P extends BasePromptElementProps>(
-	ctor: PromptElementCtor<P, any>,
+	ctor: PromptElementType<P, any>,
 	props: P,
 	budgetInformation:
 		| {
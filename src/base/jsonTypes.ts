@@ -39,6 +39,8 @@ export const enum PieceCtorKind {
 	BaseChatMessage = 1,
 	Other = 2,
 	ImageChatMessage = 3,
+	DocumentChatMessage = 4,
+	AudioChatMessage = 5,
 }
 
 export const jsonRetainedProps = Object.keys({
@@ -71,6 +73,30 @@ export interface ImageChatMessagePieceJSON {
 	};
 }
 
+export interface DocumentChatMessagePieceJSON {
+	type: PromptNodeType.Piece;
+	ctor: PieceCtorKind.DocumentChatMessage;
+	children: PromptNodeJSON[];
+	references: PromptReferenceJSON[] | undefined;
+	props: {
+		src: string;
+		mimeType: string;
+		title?: string;
+	};
+}
+
+export interface AudioChatMessagePieceJSON {
+	type: PromptNodeType.Piece;
+	ctor: PieceCtorKind.AudioChatMessage;
+	children: PromptNodeJSON[];
+	references: PromptReferenceJSON[] | undefined;
+	props: {
+		src: string;
+		format: string;
+		duration?: number;
+	};
+}
+
 export interface OpaqueJSON {
 	type: PromptNodeType.Opaque;
 	tokenUsage?: number;
@@ -78,7 +104,11 @@ export interface OpaqueJSON {
 	priority?: number;
 }
 
-export type PieceJSON = BasePieceJSON | ImageChatMessagePieceJSON;
+export type PieceJSON =
+	| BasePieceJSON
+	| ImageChatMessagePieceJSON
+	| DocumentChatMessagePieceJSON
+	| AudioChatMessagePieceJSON;
 
 export type PromptNodeJSON = PieceJSON | TextJSON | OpaqueJSON;
 
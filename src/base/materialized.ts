@@ -3,11 +3,11 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { once } from './once';
-import { Raw, toMode } from './output/mode';
+import { OutputMode, Raw, toMode } from './output/mode';
 import { ToolCall } from './promptElements';
 import { MetadataMap } from './promptRenderer';
 import { PromptMetadata } from './results';
-import { ITokenizer } from './tokenizer/tokenizer';
+import { countToolTokens, ITokenizer, tokenLengths } from './tokenizer/tokenizer';
 
 export interface IMaterializedNode {
 	/**
@@ -35,8 +35,12 @@ export type MaterializedNode =
 	| MaterializedChatMessage
 	| MaterializedChatMessageTextChunk
 	| MaterializedChatMessageImage
+	| MaterializedChatMessageDocument
+	| MaterializedChatMessageAudio
 	| MaterializedChatMessageOpaque
-	| MaterializedChatMessageBreakpoint;
+	| MaterializedChatMessageBreakpoint
+	| MaterializedChatMessageThinking
+	| MaterializedToolDefinition;
 
 export const enum ContainerFlags {
 	/** It's a {@link LegacyPrioritization} instance */
@@ -53,8 +57,11 @@ type ContainerType = MaterializedChatMessage | GenericMaterializedContainer;
 type ContentType =
 	| MaterializedChatMessageTextChunk
 	| MaterializedChatMessageImage
+	| MaterializedChatMessageDocument
+	| MaterializedChatMessageAudio
 	| MaterializedChatMessageOpaque
-	| MaterializedChatMessageBreakpoint;
+	| MaterializedChatMessageBreakpoint
+	| MaterializedChatMessageThinking;
 
 export class GenericMaterializedContainer implements IMaterializedContainer {
 	public readonly children: MaterializedNode[];
@@ -92,12 +99,25 @@ export class GenericMaterializedContainer implements IMaterializedContainer {
 
 	/** @inheritdoc */
 	async tokenCount(tokenizer: ITokenizer): Promise<number> {
+		// Tools are counted together, since their overhead is shared
+		const tools = [...this.toolDefinitions()];
+		const toolTokens = tools.length ? await countToolTokens(tokenizer, tools) : 0;
+		return toolTokens + (await this._messageTokenCount(tokenizer));
+	}
+
+	private async _messageTokenCount(tokenizer: ITokenizer): Promise<number> {
+		await measureTextChunks(this, tokenizer, false);
 		let total = 0;
 		await Promise.all(
 			this.children.map(async child => {
-				const amt = isContainerType(child)
-					? await child.tokenCount(tokenizer)
-					: await child.upperBoundTokenCount(tokenizer);
+				let amt = 0;
+				if (child instanceof GenericMaterializedContainer) {
+					amt = await child._messageTokenCount(tokenizer);
+				} else if (child instanceof MaterializedChatMessage) {
+					amt = await child.tokenCount(tokenizer);
+				} else if (!(child instanceof MaterializedToolDefinition)) {
+					amt = await child.upperBoundTokenCount(tokenizer);
+				}
 				total += amt;
 			})
 		);
@@ -106,6 +126,7 @@ export class GenericMaterializedContainer implements IMaterializedContainer {
 
 	/** @inheritdoc */
 	async upperBoundTokenCount(tokenizer: ITokenizer): Promise<number> {
+		await measureTextChunks(this, tokenizer);
 		let total = 0;
 		await Promise.all(
 			this.children.map(async child => {
@@ -156,6 +177,10 @@ export class GenericMaterializedContainer implements IMaterializedContainer {
 	 */
 	*toChatMessages(): Generator<Raw.ChatMessage> {
 		for (const child of this.children) {
+			if (child instanceof MaterializedToolDefinition) {
+				continue;
+			}
+
 			assertContainerOrChatMessage(child);
 			if (child instanceof GenericMaterializedContainer) {
 				yield* child.toChatMessages();
@@ -184,6 +209,19 @@ export class GenericMaterializedContainer implements IMaterializedContainer {
 		return sum;
 	}
 
+	/**
+	 * Gets the tool definitions the container holds.
+	 */
+	*toolDefinitions(): Generator<Raw.ToolDefinition> {
+		for (const child of this.children) {
+			if (child instanceof MaterializedToolDefinition) {
+				yield child.definition;
+			} else if (child instanceof GenericMaterializedContainer) {
+				yield* child.toolDefinitions();
+			}
+		}
+	}
+
 	/**
 	 * Removes the node in the tree with the lowest priority. Returns the
 	 * list of nodes that were removed.
@@ -216,13 +254,33 @@ export class MaterializedChatMessageTextChunk implements IMaterializedNode {
 	}
 
 	private readonly _upperBound = once(async (tokenizer: ITokenizer) => {
-		const textTokens = await tokenizer.tokenLength({
-			type: Raw.ChatCompletionContentPartKind.Text,
-			text: this.text,
-		});
+		const textTokens = await (this._textTokens ??= tokenizer.tokenLength(this._part()));
 		return textTokens + (this.lineBreakBefore !== LineBreakBefore.None ? 1 : 0);
 	});
 
+	/** Length of the text, which may have been measured in a batch by {@link measure}. */
+	private _textTokens?: number | Promise<number>;
+
+	/**
+	 * Measures the text of the chunks in a single call to the tokenizer,
+	 * skipping those that were already measured.
+	 */
+	public static async measure(
+		chunks: readonly MaterializedChatMessageTextChunk[],
+		tokenizer: ITokenizer
+	): Promise<void> {
+		const unmeasured = chunks.filter(chunk => chunk._textTokens === undefined);
+		const lengths = await tokenLengths(
+			tokenizer,
+			unmeasured.map(chunk => chunk._part())
+		);
+		unmeasured.forEach((chunk, i) => (chunk._textTokens ??= lengths[i]));
+	}
+
+	private _part(): Raw.ChatCompletionContentPart {
+		return { type: Raw.ChatCompletionContentPartKind.Text, text: this.text };
+	}
+
 	public get isEmpty() {
 		return !/\S/.test(this.text);
 	}
@@ -259,8 +317,11 @@ export class MaterializedChatMessage implements IMaterializedNode {
 	public get text(): (
 		| string
 		| MaterializedChatMessageImage
+		| MaterializedChatMessageDocument
+		| MaterializedChatMessageAudio
 		| MaterializedChatMessageOpaque
 		| MaterializedChatMessageBreakpoint
+		| MaterializedChatMessageThinking
 	)[] {
 		return this._text();
 	}
@@ -309,10 +370,34 @@ export class MaterializedChatMessage implements IMaterializedNode {
 
 	private readonly _tokenCount = once(async (tokenizer: ITokenizer) => {
 		const raw = this.toChatMessage();
-		return tokenizer.countMessageTokens(toMode(tokenizer.mode, raw));
+
+		// Tokenizers generally can't measure images, documents and audio from
+		// their encoded data, or reasoning that the output mode drops, so use
+		// the estimates from their nodes instead.
+		let mediaTokens = 0;
+		for (const element of this.text) {
+			if (
+				element instanceof MaterializedChatMessageImage ||
+				element instanceof MaterializedChatMessageDocument ||
+				element instanceof MaterializedChatMessageAudio ||
+				element instanceof MaterializedChatMessageThinking
+			) {
+				mediaTokens += await element.upperBoundTokenCount(tokenizer);
+			}
+		}
+		raw.content = raw.content.filter(
+			p =>
+				p.type !== Raw.ChatCompletionContentPartKind.Image &&
+				p.type !== Raw.ChatCompletionContentPartKind.Document &&
+				p.type !== Raw.ChatCompletionContentPartKind.Audio &&
+				p.type !== Raw.ChatCompletionContentPartKind.Thinking
+		);
+
+		return mediaTokens + (await tokenizer.countMessageTokens(toMode(tokenizer.mode, raw)));
 	});
 
 	private readonly _upperBound = once(async (tokenizer: ITokenizer) => {
+		await measureTextChunks(this, tokenizer);
 		let total = await this.baseMessageTokenCount(tokenizer);
 		await Promise.all(
 			this.children.map(async chunk => {
@@ -330,7 +415,13 @@ export class MaterializedChatMessage implements IMaterializedNode {
 			.map(message => {
 				if (message.type === Raw.ChatCompletionContentPartKind.Text) {
 					return { ...message, text: '' };
-				} else if (message.type === Raw.ChatCompletionContentPartKind.Image) {
+				} else if (
+					message.type === Raw.ChatCompletionContentPartKind.Image ||
+					message.type === Raw.ChatCompletionContentPartKind.Document ||
+					message.type === Raw.ChatCompletionContentPartKind.Audio ||
+					message.type === Raw.ChatCompletionContentPartKind.Thinking
+				) {
+					// Counted by their materialized nodes
 					return undefined;
 				} else {
 					return message;
@@ -345,13 +436,19 @@ export class MaterializedChatMessage implements IMaterializedNode {
 		let result: (
 			| string
 			| MaterializedChatMessageImage
+			| MaterializedChatMessageDocument
+			| MaterializedChatMessageAudio
 			| MaterializedChatMessageOpaque
 			| MaterializedChatMessageBreakpoint
+			| MaterializedChatMessageThinking
 		)[] = [];
 		for (const { content, isTextSibling } of contentChunks(this)) {
 			if (
 				content instanceof MaterializedChatMessageImage ||
-				content instanceof MaterializedChatMessageOpaque
+				content instanceof MaterializedChatMessageDocument ||
+				content instanceof MaterializedChatMessageAudio ||
+				content instanceof MaterializedChatMessageOpaque ||
+				content instanceof MaterializedChatMessageThinking
 			) {
 				result.push(content);
 				continue;
@@ -395,14 +492,19 @@ export class MaterializedChatMessage implements IMaterializedNode {
 				};
 			} else if (element instanceof MaterializedChatMessageOpaque) {
 				return { type: Raw.ChatCompletionContentPartKind.Opaque, value: element.value };
-			} else if (element instanceof MaterializedChatMessageBreakpoint) {
+			} else if (
+				element instanceof MaterializedChatMessageDocument ||
+				element instanceof MaterializedChatMessageAudio ||
+				element instanceof MaterializedChatMessageBreakpoint ||
+				element instanceof MaterializedChatMessageThinking
+			) {
 				return element.part;
 			} else {
 				throw new Error('Unexpected element type');
 			}
 		});
 
-		if (this.role === Raw.ChatRole.System) {
+		if (this.role === Raw.ChatRole.System || this.role === Raw.ChatRole.Developer) {
 			return {
 				role: this.role,
 				content,
@@ -482,6 +584,39 @@ export class MaterializedChatMessageBreakpoint {
 	isEmpty: boolean = false;
 }
 
+/** Output modes in which reasoning counts towards the prompt. */
+const modesWithThinking = OutputMode.Raw | OutputMode.Anthropic | OutputMode.OpenAIResponses;
+
+export class MaterializedChatMessageThinking {
+	public readonly metadata: PromptMetadata[] = [];
+
+	constructor(
+		public readonly parent: ContainerType | undefined,
+		public readonly part: Raw.ChatCompletionContentPartThinking,
+		public readonly priority = Number.MAX_SAFE_INTEGER
+	) {}
+
+	public upperBoundTokenCount(tokenizer: ITokenizer) {
+		return this._upperBound(tokenizer);
+	}
+
+	private readonly _upperBound = once(async (tokenizer: ITokenizer) => {
+		const length = await tokenizer.tokenLength(this.part);
+		if (length || !(tokenizer.mode & modesWithThinking)) {
+			return length;
+		}
+
+		// Tokenizers that don't measure reasoning get its text. The signature
+		// is opaque, so it isn't measured as text.
+		return tokenizer.tokenLength({
+			type: Raw.ChatCompletionContentPartKind.Text,
+			text: this.part.text,
+		});
+	});
+
+	isEmpty: boolean = false;
+}
+
 export class MaterializedChatMessageImage {
 	constructor(
 		public readonly parent: ContainerType | undefined,
@@ -507,6 +642,76 @@ export class MaterializedChatMessageImage {
 	isEmpty: boolean = false;
 }
 
+export class MaterializedChatMessageDocument {
+	constructor(
+		public readonly parent: ContainerType | undefined,
+		public readonly id: number,
+		public readonly part: Raw.ChatCompletionContentPartDocument,
+		public readonly priority: number,
+		public readonly metadata: PromptMetadata[] = []
+	) {}
+
+	public upperBoundTokenCount(tokenizer: ITokenizer) {
+		return this._upperBound(tokenizer);
+	}
+
+	private readonly _upperBound = once(async (tokenizer: ITokenizer) => {
+		return (
+			(await tokenizer.tokenLength(this.part)) ||
+			Raw.ChatCompletionContentPartDocument.estimateTokens(this.part)
+		);
+	});
+
+	isEmpty: boolean = false;
+}
+
+export class MaterializedChatMessageAudio {
+	constructor(
+		public readonly parent: ContainerType | undefined,
+		public readonly id: number,
+		public readonly part: Raw.ChatCompletionContentPartAudio,
+		public readonly priority: number,
+		public readonly metadata: PromptMetadata[] = []
+	) {}
+
+	public upperBoundTokenCount(tokenizer: ITokenizer) {
+		return this._upperBound(tokenizer);
+	}
+
+	private readonly _upperBound = once(async (tokenizer: ITokenizer) => {
+		return (
+			(await tokenizer.tokenLength(this.part)) ||
+			Raw.ChatCompletionContentPartAudio.estimateTokens(this.part)
+		);
+	});
+
+	isEmpty: boolean = false;
+}
+
+/**
+ * A tool the model may call. These are siblings of chat messages, and are
+ * sent alongside them rather than as part of their content.
+ */
+export class MaterializedToolDefinition {
+	constructor(
+		public readonly parent: ContainerType | undefined,
+		public readonly id: number,
+		public readonly definition: Raw.ToolDefinition,
+		public readonly priority: number,
+		public readonly metadata: PromptMetadata[] = []
+	) {}
+
+	public upperBoundTokenCount(tokenizer: ITokenizer) {
+		return this._upperBound(tokenizer);
+	}
+
+	private readonly _upperBound = once(async (tokenizer: ITokenizer) => {
+		return countToolTokens(tokenizer, [this.definition]);
+	});
+
+	isEmpty: boolean = false;
+}
+
 function isContainerType(node: MaterializedNode): node is ContainerType {
 	return node instanceof GenericMaterializedContainer || node instanceof MaterializedChatMessage;
 }
@@ -515,8 +720,11 @@ function isContentType(node: MaterializedNode): node is ContentType {
 	return (
 		node instanceof MaterializedChatMessageTextChunk ||
 		node instanceof MaterializedChatMessageImage ||
+		node instanceof MaterializedChatMessageDocument ||
+		node instanceof MaterializedChatMessageAudio ||
 		node instanceof MaterializedChatMessageOpaque ||
-		node instanceof MaterializedChatMessageBreakpoint
+		node instanceof MaterializedChatMessageBreakpoint ||
+		node instanceof MaterializedChatMessageThinking
 	);
 }
 
@@ -539,12 +747,19 @@ function* contentChunks(
 			isTextSibling = true;
 		} else if (
 			child instanceof MaterializedChatMessageImage ||
+			child instanceof MaterializedChatMessageDocument ||
+			child instanceof MaterializedChatMessageAudio ||
 			child instanceof MaterializedChatMessageOpaque ||
-			child instanceof MaterializedChatMessageBreakpoint
+			child instanceof MaterializedChatMessageBreakpoint ||
+			child instanceof MaterializedChatMessageThinking
 		) {
 			yield { content: child, isTextSibling: false };
 		} else if (child instanceof MaterializedChatMessageOpaque) {
 			yield { content: child, isTextSibling: true };
+		} else if (child instanceof MaterializedToolDefinition) {
+			throw new Error(
+				`Tool definitions cannot be inside a ChatMessage. Tool: "${child.definition.name}"`
+			);
 		} else {
 			if (child) yield* contentChunks(child, isTextSibling);
 			isTextSibling = false;
@@ -557,11 +772,11 @@ function removeLowestPriorityLegacy(root: MaterializedNode, removed: Materialize
 		| undefined
 		| {
 				chain: ContainerType[];
-				node: ContentType;
+				node: ContentType | MaterializedToolDefinition;
 		  };
 
 	function findLowestInTree(node: MaterializedNode, chain: ContainerType[]) {
-		if (isContentType(node)) {
+		if (isContentType(node) || node instanceof MaterializedToolDefinition) {
 			if (!lowest || node.priority < lowest.node.priority) {
 				lowest = { chain: chain.slice(), node };
 			}
@@ -685,6 +900,7 @@ function removeLowestPriorityChild(node: ContainerType, removed: MaterializedNod
 
 	if (
 		isContentType(lowest.value) ||
+		lowest.value instanceof MaterializedToolDefinition ||
 		(lowest.value instanceof GenericMaterializedContainer &&
 			lowest.value.has(ContainerFlags.IsChunk)) ||
 		(isContainerType(lowest.value) && !lowest.value.children.length)
@@ -772,6 +988,38 @@ function* forEachNode(node: MaterializedNode) {
 	}
 }
 
+/**
+ * Measures the text chunks in the tree in a single batch, if the tokenizer
+ * supports batching, so that their upper bounds aren't measured one at a
+ * time. Chat messages are skipped unless `intoMessages` is set, since their
+ * precise counts don't use the upper bounds of their chunks.
+ */
+export function measureTextChunks(
+	node: MaterializedNode,
+	tokenizer: ITokenizer,
+	intoMessages = true
+): Promise<void> {
+	if (!tokenizer.tokenLengthBatch) {
+		return Promise.resolve();
+	}
+
+	const chunks: MaterializedChatMessageTextChunk[] = [];
+	const queue: MaterializedNode[] = [node];
+	while (queue.length > 0) {
+		const current = queue.pop()!;
+		if (current instanceof MaterializedChatMessageTextChunk) {
+			chunks.push(current);
+		} else if (
+			isContainerType(current) &&
+			(intoMessages || current === node || !(current instanceof MaterializedChatMessage))
+		) {
+			queue.push(...current.children);
+		}
+	}
+
+	return MaterializedChatMessageTextChunk.measure(chunks, tokenizer);
+}
+
 function getRoot(node: MaterializedNode): GenericMaterializedContainer {
 	let current = node;
 	while (current.parent) {
@@ -0,0 +1,355 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+import * as Raw from './rawTypes';
+import * as Anthropic from './anthropicTypes';
+import { OutputMode } from './mode';
+
+const DATA_URL_RE = /^data:([^;,]+);base64,(.*)$/s;
+
+function toImageBlock(image: Raw.ImageURLReference): Anthropic.ImageBlockParam {
+	const match = DATA_URL_RE.exec(image.url);
+	return {
+		type: 'image',
+		source: match
+			? { type: 'base64', media_type: match[1], data: match[2] }
+			: { type: 'url', url: image.url },
+	};
+}
+
+function toDocumentBlock(document: Raw.DocumentReference): Anthropic.DocumentBlockParam {
+	const match = DATA_URL_RE.exec(document.url);
+	let source: Anthropic.DocumentBlockParam['source'];
+	if (!match) {
+		source = { type: 'url', url: document.url };
+	} else if (match[1] === 'text/plain') {
+		// The API only accepts base64 data for PDFs, text is sent as-is
+		source = { type: 'text', media_type: 'text/plain', data: decodeBase64Text(match[2]) };
+	} else {
+		source = { type: 'base64', media_type: match[1], data: match[2] };
+	}
+
+	return { type: 'document', source, ...(document.title ? { title: document.title } : {}) };
+}
+
+function decodeBase64Text(data: string): string {
+	return new TextDecoder().decode(Uint8Array.from(atob(data), c => c.charCodeAt(0)));
+}
+
+function encodeBase64Text(text: string): string {
+	let binary = '';
+	for (const byte of new TextEncoder().encode(text)) {
+		binary += String.fromCharCode(byte);
+	}
+	return btoa(binary);
+}
+
+function contentBlocks(content: Raw.ChatCompletionContentPart[]): Anthropic.ContentBlockParam[] {
+	const blocks: Anthropic.ContentBlockParam[] = [];
+	for (const part of content) {
+		if (part.type === Raw.ChatCompletionContentPartKind.Text) {
+			// The API rejects empty text blocks
+			if (part.text) {
+				blocks.push({ type: 'text', text: part.text });
+			}
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+			blocks.push(toImageBlock(part.imageUrl));
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Document) {
+			blocks.push(toDocumentBlock(part.document));
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Audio) {
+			Raw.ChatCompletionContentPartAudio.warnOmitted('Anthropic output does not support audio');
+		} else if (
+			part.type === Raw.ChatCompletionContentPartKind.Opaque &&
+			Raw.ChatCompletionContentPartOpaque.usableIn(part, OutputMode.Anthropic)
+		) {
+			blocks.push(part.value as Anthropic.ContentBlockParam);
+		} else if (part.type === Raw.ChatCompletionContentPartKind.CacheBreakpoint) {
+			// Anthropic marks the last block of a cacheable prefix, rather than
+			// inserting a separate breakpoint between blocks.
+			const last = blocks.at(-1);
+			if (last && last.type !== 'thinking' && last.type !== 'redacted_thinking') {
+				blocks[blocks.length - 1] = {
+					...last,
+					cache_control: { type: part.cacheType ?? 'ephemeral' },
+				};
+			}
+		}
+	}
+
+	return blocks;
+}
+
+/**
+ * Thinking blocks must lead the assistant turn, so they are collected
+ * separately from the other content. They are dropped in other roles.
+ */
+function thinkingBlocks(
+	content: Raw.ChatCompletionContentPart[]
+): (Anthropic.ThinkingBlockParam | Anthropic.RedactedThinkingBlockParam)[] {
+	return content
+		.filter(part => part.type === Raw.ChatCompletionContentPartKind.Thinking)
+		.map(part =>
+			part.text
+				? { type: 'thinking', thinking: part.text, signature: part.signature ?? '' }
+				: { type: 'redacted_thinking', data: part.signature ?? '' }
+		);
+}
+
+function toToolUseBlock(toolCall: Raw.ChatMessageToolCall): Anthropic.ToolUseBlockParam {
+	// prompt-tsx got args passed as a string, but Anthropic expects an object
+	let input: unknown;
+	try {
+		input = JSON.parse(toolCall.function.arguments || '{}');
+	} catch (err) {
+		throw new Error('Invalid JSON in tool call arguments for tool call: ' + toolCall.id);
+	}
+
+	return { type: 'tool_use', id: toolCall.id, name: toolCall.function.name, input };
+}
+
+export function toAnthropicChatMessage(
+	message: Raw.ChatMessage
+): Anthropic.ChatMessage | undefined {
+	switch (message.role) {
+		case Raw.ChatRole.Developer:
+		case Raw.ChatRole.System:
+			return {
+				role: Anthropic.ChatRole.System,
+				content: contentBlocks(message.content).filter(
+					(b): b is Anthropic.TextBlockParam => b.type === 'text'
+				),
+			};
+		case Raw.ChatRole.User:
+			return {
+				role: Anthropic.ChatRole.User,
+				content: contentBlocks(message.content),
+			};
+		case Raw.ChatRole.Assistant:
+			return {
+				role: Anthropic.ChatRole.Assistant,
+				content: [
+					...thinkingBlocks(message.content),
+					...contentBlocks(message.content),
+					...(message.toolCalls?.map(toToolUseBlock) ?? []),
+				],
+			};
+		case Raw.ChatRole.Tool:
+			return {
+				role: Anthropic.ChatRole.User,
+				content: [
+					{
+						type: 'tool_result',
+						tool_use_id: message.toolCallId,
+						content: contentBlocks(message.content).filter(
+							(b): b is Anthropic.ToolResultBlockParam['content'][number] =>
+								b.type === 'text' || b.type === 'image' || b.type === 'document'
+						),
+					},
+				],
+			};
+		default:
+			return undefined;
+	}
+}
+
+export function toAnthropicChatMessages(
+	messages: readonly Raw.ChatMessage[]
+): Anthropic.ChatMessage[] {
+	return messages.map(toAnthropicChatMessage).filter(r => !!r);
+}
+
+/**
+ * Converts messages to the shape of an Anthropic Messages API request. System
+ * messages are lifted into the top-level `system` field, and consecutive
+ * messages of the same role are merged so that tool results for parallel tool
+ * calls are sent in a single user turn.
+ */
+export function toAnthropicRequest(
+	messages: readonly Raw.ChatMessage[]
+): Anthropic.MessagesRequest {
+	const system: Anthropic.TextBlockParam[] = [];
+	const result: Anthropic.MessageParam[] = [];
+	for (const message of toAnthropicChatMessages(messages)) {
+		if (message.role === Anthropic.ChatRole.System) {
+			system.push(...message.content);
+			continue;
+		}
+
+		if (!message.content.length) {
+			continue;
+		}
+
+		const prev = result.at(-1);
+		if (prev?.role === message.role) {
+			prev.content.push(...message.content);
+		} else {
+			result.push(message);
+		}
+	}
+
+	return system.length ? { system, messages: result } : { messages: result };
+}
+
+function fromImageBlock(block: Anthropic.ImageBlockParam): Raw.ChatCompletionContentPartImage {
+	return {
+		type: Raw.ChatCompletionContentPartKind.Image,
+		imageUrl: {
+			url:
+				block.source.type === 'base64'
+					? `data:${block.source.media_type};base64,${block.source.data}`
+					: block.source.url,
+		},
+	};
+}
+
+function fromDocumentBlock(
+	block: Anthropic.DocumentBlockParam
+): Raw.ChatCompletionContentPartDocument {
+	const { source } = block;
+	let url: string;
+	let mimeType: string;
+	if (source.type === 'url') {
+		url = source.url;
+		mimeType = 'application/pdf';
+	} else {
+		mimeType = source.media_type;
+		url = `data:${mimeType};base64,${
+			source.type === 'text' ? encodeBase64Text(source.data) : source.data
+		}`;
+	}
+
+	return {
+		type: Raw.ChatCompletionContentPartKind.Document,
+		document: { url, mimeType, ...(block.title ? { title: block.title } : {}) },
+	};
+}
+
+/** The API also accepts plain strings wherever text blocks are expected */
+function asBlocks<T extends Anthropic.ContentBlockParam>(
+	content: string | readonly T[]
+): readonly (T | Anthropic.TextBlockParam)[] {
+	if (typeof content !== 'string') {
+		return content;
+	}
+
+	return content ? [{ type: 'text', text: content }] : [];
+}
+
+function fromContentBlock(block: Anthropic.ContentBlockParam): Raw.ChatCompletionContentPart[] {
+	let part: Raw.ChatCompletionContentPart;
+	if (block.type === 'text') {
+		part = { type: Raw.ChatCompletionContentPartKind.Text, text: block.text };
+	} else if (block.type === 'image') {
+		part = fromImageBlock(block);
+	} else if (block.type === 'document') {
+		part = fromDocumentBlock(block);
+	} else if (block.type === 'thinking') {
+		return [
+			{
+				type: Raw.ChatCompletionContentPartKind.Thinking,
+				text: block.thinking,
+				signature: block.signature,
+			},
+		];
+	} else if (block.type === 'redacted_thinking') {
+		return [{ type: Raw.ChatCompletionContentPartKind.Thinking, text: '', signature: block.data }];
+	} else {
+		// Unknown blocks are kept as-is, but only for Anthropic output
+		return [
+			{ type: Raw.ChatCompletionContentPartKind.Opaque, value: block, scope: OutputMode.Anthropic },
+		];
+	}
+
+	return block.cache_control
+		? [
+				part,
+				{
+					type: Raw.ChatCompletionContentPartKind.CacheBreakpoint,
+					cacheType: block.cache_control.type,
+				},
+		  ]
+		: [part];
+}
+
+/**
+ * Converts a single Anthropic message back to raw messages. User messages
+ * containing `tool_result` blocks are split into one tool message per result.
+ */
+export function fromAnthropicChatMessage(message: Anthropic.ChatMessage): Raw.ChatMessage[] {
+	switch (message.role) {
+		case Anthropic.ChatRole.System:
+			return [
+				{ role: Raw.ChatRole.System, content: asBlocks(message.content).flatMap(fromContentBlock) },
+			];
+		case Anthropic.ChatRole.Assistant: {
+			const result: Raw.AssistantChatMessage = { role: Raw.ChatRole.Assistant, content: [] };
+			for (const block of asBlocks(message.content)) {
+				if (block.type === 'tool_use') {
+					result.toolCalls ??= [];
+					result.toolCalls.push({
+						id: block.id,
+						function: { name: block.name, arguments: JSON.stringify(block.input) },
+						type: 'function',
+					});
+				} else {
+					result.content.push(...fromContentBlock(block));
+				}
+			}
+			return [result];
+		}
+		case Anthropic.ChatRole.User: {
+			const result: Raw.ChatMessage[] = [];
+			let user: Raw.UserChatMessage | undefined;
+			for (const block of asBlocks(message.content)) {
+				if (block.type === 'tool_result') {
+					const content = asBlocks(block.content).flatMap(fromContentBlock);
+					if (block.cache_control) {
+						content.push({
+							type: Raw.ChatCompletionContentPartKind.CacheBreakpoint,
+							cacheType: block.cache_control.type,
+						});
+					}
+					result.push({ role: Raw.ChatRole.Tool, toolCallId: block.tool_use_id, content });
+					user = undefined;
+				} else {
+					if (!user) {
+						user = { role: Raw.ChatRole.User, content: [] };
+						result.push(user);
+					}
+					user.content.push(...fromContentBlock(block));
+				}
+			}
+			return result;
+		}
+		default:
+			return [];
+	}
+}
+
+/**
+ * Converts an Anthropic Messages API request, or a list of messages, back to
+ * raw messages. A top-level `system` prompt becomes a leading system message.
+ */
+export function fromAnthropicRequest(
+	request: Anthropic.MessagesRequest | readonly Anthropic.ChatMessage[]
+): Raw.ChatMessage[] {
+	const result: Raw.ChatMessage[] = [];
+	let messages: readonly Anthropic.ChatMessage[];
+	if ('messages' in request) {
+		if (request.system?.length) {
+			result.push({
+				role: Raw.ChatRole.System,
+				content: asBlocks(request.system).flatMap(fromContentBlock),
+			});
+		}
+		messages = request.messages;
+	} else {
+		messages = request;
+	}
+
+	for (const message of messages) {
+		result.push(...fromAnthropicChatMessage(message));
+	}
+
+	return result;
+}
@@ -0,0 +1,247 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { toAnthropic } from './mode';
+
+/**
+ * An Anthropic Messages API message. System messages are emitted in this
+ * representation so that they can be counted individually, but they must be
+ * sent in the top-level `system` field of the request. Use {@link toAnthropic}
+ * to produce a request-ready {@link MessagesRequest}.
+ *
+ * Reference: https://docs.anthropic.com/en/api/messages
+ */
+export type ChatMessage = SystemChatMessage | UserChatMessage | AssistantChatMessage;
+
+export interface SystemChatMessage {
+	role: ChatRole.System;
+
+	/**
+	 * The content of the system prompt.
+	 */
+	content: TextBlockParam[];
+}
+
+export interface UserChatMessage {
+	role: ChatRole.User;
+
+	/**
+	 * The content of the chat message. Tool results are sent as
+	 * `tool_result` blocks in user messages.
+	 */
+	content: ContentBlockParam[];
+}
+
+export interface AssistantChatMessage {
+	role: ChatRole.Assistant;
+
+	/**
+	 * The content of the chat message. Tool calls are sent as `tool_use`
+	 * blocks in assistant messages.
+	 */
+	content: ContentBlockParam[];
+}
+
+/**
+ * A message in the `messages` array of a Messages API request.
+ */
+export type MessageParam = UserChatMessage | AssistantChatMessage;
+
+/**
+ * The prompt-related fields of a Messages API request.
+ */
+export interface MessagesRequest {
+	/**
+	 * The system prompt, if any system messages were present.
+	 */
+	system?: TextBlockParam[];
+
+	/**
+	 * Alternating user and assistant messages.
+	 */
+	messages: MessageParam[];
+}
+
+export type ContentBlockParam =
+	| TextBlockParam
+	| ImageBlockParam
+	| DocumentBlockParam
+	| ToolUseBlockParam
+	| ToolResultBlockParam
+	| ThinkingBlockParam
+	| RedactedThinkingBlockParam;
+
+export interface CacheControl {
+	/**
+	 * The type of the cache breakpoint. Currently only `ephemeral` is
+	 * supported by the API.
+	 */
+	type: string;
+}
+
+export interface TextBlockParam {
+	type: 'text';
+
+	/**
+	 * The text content.
+	 */
+	text: string;
+
+	/**
+	 * Marks the end of a cacheable prompt prefix.
+	 */
+	cache_control?: CacheControl;
+}
+
+export interface ImageBlockParam {
+	type: 'image';
+
+	/**
+	 * The image data or its URL.
+	 */
+	source: ImageBlockParam.Base64Source | ImageBlockParam.URLSource;
+
+	/**
+	 * Marks the end of a cacheable prompt prefix.
+	 */
+	cache_control?: CacheControl;
+}
+
+export namespace ImageBlockParam {
+	export interface Base64Source {
+		type: 'base64';
+
+		/**
+		 * The mime type of the image, such as `image/png`.
+		 */
+		media_type: string;
+
+		/**
+		 * The base64 encoded image data.
+		 */
+		data: string;
+	}
+
+	export interface URLSource {
+		type: 'url';
+
+		/**
+		 * The URL of the image.
+		 */
+		url: string;
+	}
+}
+
+export interface DocumentBlockParam {
+	type: 'document';
+
+	/**
+	 * The document data or its URL. Plain text documents are given as text.
+	 */
+	source:
+		| ImageBlockParam.Base64Source
+		| ImageBlockParam.URLSource
+		| DocumentBlockParam.PlainTextSource;
+
+	/**
+	 * An optional title of the document.
+	 */
+	title?: string;
+
+	/**
+	 * Marks the end of a cacheable prompt prefix.
+	 */
+	cache_control?: CacheControl;
+}
+
+export namespace DocumentBlockParam {
+	export interface PlainTextSource {
+		type: 'text';
+
+		/**
+		 * The mime type of the text, which must be `text/plain`.
+		 */
+		media_type: 'text/plain';
+
+		/**
+		 * The text content of the document.
+		 */
+		data: string;
+	}
+}
+
+export interface ToolUseBlockParam {
+	type: 'tool_use';
+
+	/**
+	 * The ID of the tool call.
+	 */
+	id: string;
+
+	/**
+	 * The name of the tool that the model called.
+	 */
+	name: string;
+
+	/**
+	 * The parsed arguments of the tool call.
+	 */
+	input: unknown;
+
+	/**
+	 * Marks the end of a cacheable prompt prefix.
+	 */
+	cache_control?: CacheControl;
+}
+
+export interface ToolResultBlockParam {
+	type: 'tool_result';
+
+	/**
+	 * The ID of the tool call this block is responding to.
+	 */
+	tool_use_id: string;
+
+	/**
+	 * The content of the tool result.
+	 */
+	content: (TextBlockParam | ImageBlockParam | DocumentBlockParam)[];
+
+	/**
+	 * Marks the end of a cacheable prompt prefix.
+	 */
+	cache_control?: CacheControl;
+}
+
+export interface ThinkingBlockParam {
+	type: 'thinking';
+
+	/**
+	 * The model's reasoning.
+	 */
+	thinking: string;
+
+	/**
+	 * The signature that verifies the reasoning was produced by the model.
+	 */
+	signature: string;
+}
+
+export interface RedactedThinkingBlockParam {
+	type: 'redacted_thinking';
+
+	/**
+	 * The encrypted reasoning.
+	 */
+	data: string;
+}
+
+/**
+ * The role of a message in an Anthropic Messages API request.
+ */
+export enum ChatRole {
+	System = 'system',
+	User = 'user',
+	Assistant = 'assistant',
+}
@@ -0,0 +1,142 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+import * as Raw from './rawTypes';
+import * as ChatTemplate from './chatTemplateTypes';
+import { OutputMode } from './mode';
+
+function onlyStringContent(content: Raw.ChatCompletionContentPart[]): string {
+	return content
+		.map(part => {
+			if (part.type === Raw.ChatCompletionContentPartKind.Text) {
+				return part.text;
+			} else if (
+				part.type === Raw.ChatCompletionContentPartKind.Opaque &&
+				typeof part.value === 'string' &&
+				Raw.ChatCompletionContentPartOpaque.usableIn(part, OutputMode.ChatTemplate)
+			) {
+				return part.value;
+			}
+			return '';
+		})
+		.join('');
+}
+
+function toolCallText(toolCall: Raw.ChatMessageToolCall): string {
+	let args: unknown = toolCall.function.arguments;
+	try {
+		args = JSON.parse(toolCall.function.arguments);
+	} catch {
+		// keep the arguments as given
+	}
+
+	return JSON.stringify({ name: toolCall.function.name, arguments: args });
+}
+
+export function toChatTemplateMessage(
+	message: Raw.ChatMessage
+): ChatTemplate.ChatMessage | undefined {
+	if (message.content.some(part => part.type === Raw.ChatCompletionContentPartKind.Document)) {
+		Raw.ChatCompletionContentPartDocument.warnOmitted('chat templates do not support documents');
+	}
+	if (message.content.some(part => part.type === Raw.ChatCompletionContentPartKind.Audio)) {
+		Raw.ChatCompletionContentPartAudio.warnOmitted('chat templates do not support audio');
+	}
+
+	switch (message.role) {
+		case Raw.ChatRole.Developer:
+		case Raw.ChatRole.System:
+			return { role: ChatTemplate.ChatRole.System, content: onlyStringContent(message.content) };
+		case Raw.ChatRole.User:
+			return { role: ChatTemplate.ChatRole.User, content: onlyStringContent(message.content) };
+		case Raw.ChatRole.Assistant:
+			return {
+				role: ChatTemplate.ChatRole.Assistant,
+				content: [
+					onlyStringContent(message.content),
+					...(message.toolCalls?.map(toolCallText) ?? []),
+				]
+					.filter(s => !!s)
+					.join('\n'),
+			};
+		case Raw.ChatRole.Tool:
+			return { role: ChatTemplate.ChatRole.Tool, content: onlyStringContent(message.content) };
+		default:
+			return undefined;
+	}
+}
+
+export function toChatTemplateMessages(
+	messages: readonly Raw.ChatMessage[]
+): ChatTemplate.ChatMessage[] {
+	return messages.map(toChatTemplateMessage).filter(r => !!r);
+}
+
+/**
+ * Separates system and tool messages that are merged into a user turn from
+ * the content that follows them.
+ */
+const MERGED_MESSAGE_SEPARATOR = '\n\n';
+
+function isMergedIntoUser(template: ChatTemplate.Template, role: ChatTemplate.ChatRole) {
+	return (
+		(role === ChatTemplate.ChatRole.System || role === ChatTemplate.ChatRole.Tool) &&
+		!template.messages[role]
+	);
+}
+
+/**
+ * Formats a single message with the template. This does not include the
+ * template's `bos` or `generationPrompt`. System and tool messages that the
+ * template has no format for are formatted as the text they contribute to
+ * the next user turn.
+ */
+export function formatChatTemplateMessage(
+	template: ChatTemplate.Template,
+	message: ChatTemplate.ChatMessage
+): string {
+	if (isMergedIntoUser(template, message.role)) {
+		return message.content + MERGED_MESSAGE_SEPARATOR;
+	}
+
+	const format = template.messages[message.role] ?? template.messages.user;
+	return format.replace('{content}', () => message.content);
+}
+
+/**
+ * Formats messages into a single prompt string with the template.
+ */
+export function formatChatTemplate(
+	template: ChatTemplate.Template,
+	messages: readonly ChatTemplate.ChatMessage[]
+): string {
+	let result = template.bos ?? '';
+	let merged = '';
+	const flushMerged = () => {
+		if (merged) {
+			result += formatChatTemplateMessage(template, {
+				role: ChatTemplate.ChatRole.User,
+				content: merged.slice(0, -MERGED_MESSAGE_SEPARATOR.length),
+			});
+			merged = '';
+		}
+	};
+
+	for (const message of messages) {
+		if (isMergedIntoUser(template, message.role)) {
+			merged += formatChatTemplateMessage(template, message);
+		} else if (message.role === ChatTemplate.ChatRole.User) {
+			result += formatChatTemplateMessage(template, {
+				role: message.role,
+				content: merged + message.content,
+			});
+			merged = '';
+		} else {
+			flushMerged();
+			result += formatChatTemplateMessage(template, message);
+		}
+	}
+
+	flushMerged();
+	return result + (template.generationPrompt ?? '');
+}
@@ -0,0 +1,123 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { toChatTemplate } from './mode';
+
+/**
+ * A text-only chat message, ready to be formatted with a {@link Template}.
+ * Images are dropped and tool calls are serialized as JSON. Use
+ * {@link toChatTemplate} to produce the final prompt string.
+ */
+export interface ChatMessage {
+	role: ChatRole;
+
+	/**
+	 * The text content of the message.
+	 */
+	content: string;
+}
+
+/**
+ * Describes how chat messages are flattened into a single prompt string for
+ * models served by raw text completion endpoints.
+ */
+export interface Template {
+	/**
+	 * Emitted once at the start of the prompt, such as a beginning-of-sequence
+	 * token.
+	 */
+	bos?: string;
+
+	/**
+	 * Per-role message formats, where `{content}` is replaced with the message
+	 * content. If there's no format for system or tool messages, they're
+	 * merged into the next user message, separated from it by a blank line,
+	 * as the templates of models without these roles do.
+	 */
+	messages: {
+		system?: string;
+		user: string;
+		assistant: string;
+		tool?: string;
+	};
+
+	/**
+	 * Emitted once at the end of the prompt to cue the model to respond as
+	 * the assistant.
+	 */
+	generationPrompt?: string;
+
+	/**
+	 * Special tokens used in the formats above. Each occurrence is counted as
+	 * a single token by the `ChatTemplateTokenizer`.
+	 */
+	specialTokens: readonly string[];
+}
+
+/**
+ * The role of a message in a chat template.
+ */
+export enum ChatRole {
+	System = 'system',
+	User = 'user',
+	Assistant = 'assistant',
+	Tool = 'tool',
+}
+
+/**
+ * The ChatML format used by Qwen and many fine-tuned open models.
+ */
+export const ChatML: Template = {
+	messages: {
+		system: '<|im_start|>system\n{content}<|im_end|>\n',
+		user: '<|im_start|>user\n{content}<|im_end|>\n',
+		assistant: '<|im_start|>assistant\n{content}<|im_end|>\n',
+		tool: '<|im_start|>tool\n{content}<|im_end|>\n',
+	},
+	generationPrompt: '<|im_start|>assistant\n',
+	specialTokens: ['<|im_start|>', '<|im_end|>'],
+};
+
+/**
+ * The Llama 3 instruct format.
+ */
+export const Llama3: Template = {
+	bos: '<|begin_of_text|>',
+	messages: {
+		system: '<|start_header_id|>system<|end_header_id|>\n\n{content}<|eot_id|>',
+		user: '<|start_header_id|>user<|end_header_id|>\n\n{content}<|eot_id|>',
+		assistant: '<|start_header_id|>assistant<|end_header_id|>\n\n{content}<|eot_id|>',
+		tool: '<|start_header_id|>ipython<|end_header_id|>\n\n{content}<|eot_id|>',
+	},
+	generationPrompt: '<|start_header_id|>assistant<|end_header_id|>\n\n',
+	specialTokens: ['<|begin_of_text|>', '<|start_header_id|>', '<|end_header_id|>', '<|eot_id|>'],
+};
+
+/**
+ * The Mistral `[INST]` format. Mistral has no system role, so system
+ * messages are prepended to the next user instruction.
+ */
+export const Mistral: Template = {
+	bos: '<s>',
+	messages: {
+		user: '[INST] {content} [/INST]',
+		assistant: ' {content}</s>',
+		tool: '[TOOL_RESULTS] {content} [/TOOL_RESULTS]',
+	},
+	specialTokens: ['<s>', '</s>', '[INST]', '[/INST]', '[TOOL_RESULTS]', '[/TOOL_RESULTS]'],
+};
+
+/**
+ * The Phi-3 instruct format. Phi-3 has no tool role, so tool results are
+ * prepended to the next user message.
+ */
+export const Phi3: Template = {
+	messages: {
+		system: '<|system|>\n{content}<|end|>\n',
+		user: '<|user|>\n{content}<|end|>\n',
+		assistant: '<|assistant|>\n{content}<|end|>\n',
+	},
+	generationPrompt: '<|assistant|>\n',
+	specialTokens: ['<|system|>', '<|user|>', '<|assistant|>', '<|end|>'],
+};
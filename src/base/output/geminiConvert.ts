@@ -0,0 +1,363 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+import * as Raw from './rawTypes';
+import * as Gemini from './geminiTypes';
+import { OutputMode } from './mode';
+
+const DATA_URL_RE = /^data:([^;,]+);base64,(.*)$/s;
+const DOCUMENT_MIME_RE = /^(application|text)\//;
+
+function onlyStringContent(content: Raw.ChatCompletionContentPart[]): string {
+	return content
+		.filter(part => part.type === Raw.ChatCompletionContentPartKind.Text)
+		.map(part => part.text)
+		.join('');
+}
+
+function toImagePart(image: Raw.ImageURLReference): Gemini.Part {
+	const match = DATA_URL_RE.exec(image.url);
+	return match
+		? { inlineData: { mimeType: match[1], data: match[2] } }
+		: { fileData: { fileUri: image.url } };
+}
+
+function toDocumentPart(document: Raw.DocumentReference): Gemini.Part {
+	const match = DATA_URL_RE.exec(document.url);
+	return match
+		? { inlineData: { mimeType: match[1], data: match[2] } }
+		: { fileData: { mimeType: document.mimeType, fileUri: document.url } };
+}
+
+function contentParts(content: Raw.ChatCompletionContentPart[], includeText = true): Gemini.Part[] {
+	const parts: Gemini.Part[] = [];
+	for (const part of content) {
+		if (part.type === Raw.ChatCompletionContentPartKind.Text) {
+			if (includeText && part.text) {
+				parts.push({ text: part.text });
+			}
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+			parts.push(toImagePart(part.imageUrl));
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Document) {
+			// Gemini has no document titles, so they are dropped
+			parts.push(toDocumentPart(part.document));
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Audio) {
+			parts.push({ inlineData: { mimeType: `audio/${part.audio.format}`, data: part.audio.data } });
+		} else if (
+			part.type === Raw.ChatCompletionContentPartKind.Opaque &&
+			Raw.ChatCompletionContentPartOpaque.usableIn(part, OutputMode.Gemini)
+		) {
+			parts.push(part.value as Gemini.Part);
+		}
+		// Cache breakpoints are dropped: Gemini caches explicitly created
+		// `cachedContent` resources rather than marking prompt prefixes.
+	}
+
+	return parts;
+}
+
+function toFunctionCallPart(toolCall: Raw.ChatMessageToolCall): Gemini.FunctionCallPart {
+	// prompt-tsx got args passed as a string, but Gemini expects an object
+	let args: object;
+	try {
+		args = JSON.parse(toolCall.function.arguments || '{}');
+	} catch (err) {
+		throw new Error('Invalid JSON in tool call arguments for tool call: ' + toolCall.id);
+	}
+
+	return { functionCall: { id: toolCall.id, name: toolCall.function.name, args } };
+}
+
+/**
+ * Converts the content of a model turn. Reasoning text becomes a `thought`
+ * part, while a signature without text is attached to the next text or
+ * function call part, which is where Gemini expects it to be echoed back.
+ */
+function modelParts(message: Raw.AssistantChatMessage): Gemini.Part[] {
+	const parts: Gemini.Part[] = [];
+	let signature: string | undefined;
+	const push = (part: Gemini.Part) => {
+		if (signature !== undefined && ('text' in part || 'functionCall' in part)) {
+			part = { ...part, thoughtSignature: signature };
+			signature = undefined;
+		}
+		parts.push(part);
+	};
+
+	for (const part of message.content) {
+		if (part.type !== Raw.ChatCompletionContentPartKind.Thinking) {
+			contentParts([part]).forEach(push);
+		} else if (part.text) {
+			parts.push({
+				text: part.text,
+				thought: true,
+				...(part.signature ? { thoughtSignature: part.signature } : {}),
+			});
+		} else {
+			signature = part.signature;
+		}
+	}
+	message.toolCalls?.map(toFunctionCallPart).forEach(push);
+
+	if (signature !== undefined) {
+		parts.push({ text: '', thoughtSignature: signature });
+	}
+
+	return parts;
+}
+
+/**
+ * Converts a single message. Gemini identifies function responses by name, so
+ * tool messages use their `name`, falling back to the `toolCallId`. Prefer
+ * {@link toGeminiChatMessages} which resolves names from prior tool calls.
+ */
+export function toGeminiChatMessage(
+	message: Raw.ChatMessage,
+	toolNames?: ReadonlyMap<string, string>
+): Gemini.Content | undefined {
+	switch (message.role) {
+		case Raw.ChatRole.Developer:
+		case Raw.ChatRole.System:
+			return {
+				role: Gemini.ChatRole.System,
+				parts: contentParts(message.content).filter((p): p is Gemini.TextPart => 'text' in p),
+			};
+		case Raw.ChatRole.User:
+			return {
+				role: Gemini.ChatRole.User,
+				parts: contentParts(message.content),
+			};
+		case Raw.ChatRole.Assistant:
+			return {
+				role: Gemini.ChatRole.Model,
+				parts: modelParts(message),
+			};
+		case Raw.ChatRole.Tool:
+			return {
+				role: Gemini.ChatRole.User,
+				parts: [
+					{
+						functionResponse: {
+							id: message.toolCallId,
+							name: toolNames?.get(message.toolCallId) ?? message.name ?? message.toolCallId,
+							response: { output: onlyStringContent(message.content) },
+						},
+					},
+					// Images returned from tools follow the response as their own parts
+					...contentParts(message.content, false),
+				],
+			};
+		default:
+			return undefined;
+	}
+}
+
+export function toGeminiChatMessages(messages: readonly Raw.ChatMessage[]): Gemini.Content[] {
+	const toolNames = new Map<string, string>();
+	for (const message of messages) {
+		if (message.role === Raw.ChatRole.Assistant) {
+			for (const toolCall of message.toolCalls ?? []) {
+				toolNames.set(toolCall.id, toolCall.function.name);
+			}
+		}
+	}
+
+	return messages.map(m => toGeminiChatMessage(m, toolNames)).filter(r => !!r);
+}
+
+/**
+ * Converts messages to the shape of a Gemini `generateContent` request. System
+ * messages are lifted into the `systemInstruction`, and consecutive contents
+ * of the same role are merged since Gemini requires user and model turns to
+ * alternate.
+ */
+export function toGeminiRequest(
+	messages: readonly Raw.ChatMessage[]
+): Gemini.GenerateContentRequest {
+	const systemParts: Gemini.TextPart[] = [];
+	const contents: Gemini.Content[] = [];
+	for (const content of toGeminiChatMessages(messages)) {
+		if (content.role === Gemini.ChatRole.System) {
+			systemParts.push(...(content.parts as Gemini.TextPart[]));
+			continue;
+		}
+
+		if (!content.parts.length) {
+			continue;
+		}
+
+		const prev = contents.at(-1);
+		if (prev?.role === content.role) {
+			prev.parts.push(...content.parts);
+		} else {
+			contents.push(content);
+		}
+	}
+
+	return systemParts.length
+		? { systemInstruction: { parts: systemParts }, contents }
+		: { contents };
+}
+
+function fromDataPart(
+	part: Gemini.InlineDataPart | Gemini.FileDataPart
+): Raw.ChatCompletionContentPart {
+	if ('inlineData' in part && part.inlineData.mimeType.startsWith('image/')) {
+		return {
+			type: Raw.ChatCompletionContentPartKind.Image,
+			imageUrl: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` },
+		};
+	} else if ('fileData' in part && (part.fileData.mimeType ?? 'image/').startsWith('image/')) {
+		return {
+			type: Raw.ChatCompletionContentPartKind.Image,
+			imageUrl: { url: part.fileData.fileUri },
+		};
+	}
+
+	if ('inlineData' in part && part.inlineData.mimeType.startsWith('audio/')) {
+		return {
+			type: Raw.ChatCompletionContentPartKind.Audio,
+			audio: { data: part.inlineData.data, format: part.inlineData.mimeType.slice(6) },
+		};
+	}
+
+	const mimeType = 'inlineData' in part ? part.inlineData.mimeType : part.fileData.mimeType;
+	if (mimeType && DOCUMENT_MIME_RE.test(mimeType)) {
+		return {
+			type: Raw.ChatCompletionContentPartKind.Document,
+			document: {
+				url:
+					'inlineData' in part
+						? `data:${mimeType};base64,${part.inlineData.data}`
+						: part.fileData.fileUri,
+				mimeType,
+			},
+		};
+	}
+
+	// Other media is kept as-is, but only for Gemini output
+	return { type: Raw.ChatCompletionContentPartKind.Opaque, value: part, scope: OutputMode.Gemini };
+}
+
+function fromPart(part: Gemini.Part): Raw.ChatCompletionContentPart {
+	if ('text' in part) {
+		return { type: Raw.ChatCompletionContentPartKind.Text, text: part.text };
+	} else if ('inlineData' in part || 'fileData' in part) {
+		return fromDataPart(part);
+	}
+
+	return { type: Raw.ChatCompletionContentPartKind.Opaque, value: part, scope: OutputMode.Gemini };
+}
+
+/**
+ * Converts a single Gemini content entry back to raw messages. Function
+ * responses become tool messages, identified by their `id` or, if absent,
+ * their function name.
+ */
+export function fromGeminiChatMessage(content: Gemini.Content): Raw.ChatMessage[] {
+	switch (content.role) {
+		case Gemini.ChatRole.System:
+			return [{ role: Raw.ChatRole.System, content: content.parts.map(fromPart) }];
+		case Gemini.ChatRole.Model: {
+			const result: Raw.AssistantChatMessage = { role: Raw.ChatRole.Assistant, content: [] };
+			for (const part of content.parts) {
+				if ('text' in part && part.thought) {
+					result.content.push({
+						type: Raw.ChatCompletionContentPartKind.Thinking,
+						text: part.text,
+						...(part.thoughtSignature ? { signature: part.thoughtSignature } : {}),
+					});
+					continue;
+				}
+				if ('thoughtSignature' in part && part.thoughtSignature !== undefined) {
+					result.content.push({
+						type: Raw.ChatCompletionContentPartKind.Thinking,
+						text: '',
+						signature: part.thoughtSignature,
+					});
+				}
+
+				if ('functionCall' in part) {
+					result.toolCalls ??= [];
+					result.toolCalls.push({
+						id: part.functionCall.id ?? part.functionCall.name,
+						function: {
+							name: part.functionCall.name,
+							arguments: JSON.stringify(part.functionCall.args),
+						},
+						type: 'function',
+					});
+				} else if (!('text' in part) || part.text) {
+					// Empty text parts only carry a signature, handled above
+					result.content.push(fromPart(part));
+				}
+			}
+			return [result];
+		}
+		case Gemini.ChatRole.User: {
+			const result: Raw.ChatMessage[] = [];
+			let tool: Raw.ToolChatMessage | undefined;
+			let user: Raw.UserChatMessage | undefined;
+			for (const part of content.parts) {
+				if ('functionResponse' in part) {
+					const { id, name, response } = part.functionResponse;
+					tool = {
+						role: Raw.ChatRole.Tool,
+						toolCallId: id ?? name,
+						name,
+						content: [
+							{
+								type: Raw.ChatCompletionContentPartKind.Text,
+								text:
+									typeof response.output === 'string' ? response.output : JSON.stringify(response),
+							},
+						],
+					};
+					result.push(tool);
+					user = undefined;
+				} else if (tool && ('inlineData' in part || 'fileData' in part)) {
+					// Media following a function response belongs to that response
+					tool.content.push(fromDataPart(part));
+				} else {
+					if (!user) {
+						user = { role: Raw.ChatRole.User, content: [] };
+						result.push(user);
+					}
+					user.content.push(fromPart(part));
+					tool = undefined;
+				}
+			}
+			return result;
+		}
+		default:
+			return [];
+	}
+}
+
+/**
+ * Converts a Gemini `generateContent` request, or a list of contents, back to
+ * raw messages. A `systemInstruction` becomes a leading system message.
+ */
+export function fromGeminiRequest(
+	request: Gemini.GenerateContentRequest | readonly Gemini.Content[]
+): Raw.ChatMessage[] {
+	const result: Raw.ChatMessage[] = [];
+	let contents: readonly Gemini.Content[];
+	if ('contents' in request) {
+		if (request.systemInstruction?.parts.length) {
+			result.push({
+				role: Raw.ChatRole.System,
+				content: request.systemInstruction.parts.map(fromPart),
+			});
+		}
+		contents = request.contents;
+	} else {
+		contents = request;
+	}
+
+	for (const content of contents) {
+		result.push(...fromGeminiChatMessage(content));
+	}
+
+	return result;
+}
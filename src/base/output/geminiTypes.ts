@@ -0,0 +1,143 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { toGemini } from './mode';
+
+/**
+ * A Google Gemini `generateContent` content entry. System messages are
+ * emitted in this representation so that they can be counted individually,
+ * but they must be sent as the request's `systemInstruction`. Use
+ * {@link toGemini} to produce a request-ready {@link GenerateContentRequest}.
+ *
+ * Reference: https://ai.google.dev/api/generate-content
+ */
+export interface Content {
+	role: ChatRole;
+
+	/**
+	 * The parts that make up the content.
+	 */
+	parts: Part[];
+}
+
+/**
+ * The prompt-related fields of a `generateContent` request.
+ */
+export interface GenerateContentRequest {
+	/**
+	 * The system instruction, if any system messages were present.
+	 */
+	systemInstruction?: { parts: TextPart[] };
+
+	/**
+	 * Alternating user and model contents.
+	 */
+	contents: Content[];
+}
+
+export type Part =
+	| TextPart
+	| InlineDataPart
+	| FileDataPart
+	| FunctionCallPart
+	| FunctionResponsePart;
+
+export interface TextPart {
+	/**
+	 * The text content.
+	 */
+	text: string;
+
+	/**
+	 * Whether the text is a summary of the model's reasoning.
+	 */
+	thought?: boolean;
+
+	/**
+	 * An opaque signature of the model's reasoning, which must be sent back in
+	 * the same part it was received in.
+	 */
+	thoughtSignature?: string;
+}
+
+export interface InlineDataPart {
+	inlineData: {
+		/**
+		 * The mime type of the data, such as `image/png`.
+		 */
+		mimeType: string;
+
+		/**
+		 * The base64 encoded data.
+		 */
+		data: string;
+	};
+}
+
+export interface FileDataPart {
+	fileData: {
+		/**
+		 * The mime type of the file, if known.
+		 */
+		mimeType?: string;
+
+		/**
+		 * The URI of the file.
+		 */
+		fileUri: string;
+	};
+}
+
+export interface FunctionCallPart {
+	functionCall: {
+		/**
+		 * The ID of the function call.
+		 */
+		id?: string;
+
+		/**
+		 * The name of the function that the model called.
+		 */
+		name: string;
+
+		/**
+		 * The parsed arguments of the function call.
+		 */
+		args: object;
+	};
+
+	/**
+	 * An opaque signature of the model's reasoning, which must be sent back in
+	 * the same part it was received in.
+	 */
+	thoughtSignature?: string;
+}
+
+export interface FunctionResponsePart {
+	functionResponse: {
+		/**
+		 * The ID of the function call this part is responding to.
+		 */
+		id?: string;
+
+		/**
+		 * The name of the function that was called.
+		 */
+		name: string;
+
+		/**
+		 * The function output. The `output` key holds the textual result.
+		 */
+		response: { output: string };
+	};
+}
+
+/**
+ * The role of a content entry in a Gemini request.
+ */
+export enum ChatRole {
+	System = 'system',
+	User = 'user',
+	Model = 'model',
+}
@@ -3,19 +3,76 @@
  *--------------------------------------------------------------------------------------------*/
 
 import type { LanguageModelChatMessage } from '../standalone-types';
-import { toOpenAiChatMessage, toOpenAIChatMessages } from './openaiConvert';
+import type { ITokenizer } from '../tokenizer/tokenizer';
+import {
+	fromAnthropicRequest,
+	toAnthropicChatMessage,
+	toAnthropicChatMessages,
+	toAnthropicRequest,
+} from './anthropicConvert';
+import {
+	ChatMessage as AnthropicChatMessage,
+	MessagesRequest as AnthropicMessagesRequest,
+} from './anthropicTypes';
+import {
+	formatChatTemplate,
+	toChatTemplateMessage,
+	toChatTemplateMessages,
+} from './chatTemplateConvert';
+import {
+	ChatMessage as ChatTemplateChatMessage,
+	Template as ChatTemplateTemplate,
+} from './chatTemplateTypes';
+import {
+	fromGeminiRequest,
+	toGeminiChatMessage,
+	toGeminiChatMessages,
+	toGeminiRequest,
+} from './geminiConvert';
+import {
+	Content as GeminiContent,
+	GenerateContentRequest as GeminiGenerateContentRequest,
+} from './geminiTypes';
+import {
+	fromOpenAIChatMessage,
+	fromOpenAIChatMessages,
+	toOpenAiChatMessage,
+	toOpenAIChatMessages,
+} from './openaiConvert';
+import {
+	fromOpenAIResponsesItems,
+	toOpenAIResponsesMessage,
+	toOpenAIResponsesMessages,
+} from './openaiResponsesConvert';
+import {
+	ChatMessage as OpenAIResponsesChatMessage,
+	InputItem as OpenAIResponsesInputItem,
+} from './openaiResponsesTypes';
 import { ChatMessage as OpenAIChatMessage } from './openaiTypes';
 import { ChatMessage as RawChatMessage } from './rawTypes';
 import { toVsCodeChatMessage, toVsCodeChatMessages } from './vscode';
-import { toStandaloneChatMessage, toStandaloneChatMessages } from './standalone';
+import {
+	fromStandaloneChatMessage,
+	fromStandaloneChatMessages,
+	toStandaloneChatMessage,
+	toStandaloneChatMessages,
+} from './standalone';
 
+export * as Anthropic from './anthropicTypes';
+export * as ChatTemplate from './chatTemplateTypes';
+export * as Gemini from './geminiTypes';
 export * as OpenAI from './openaiTypes';
+export * as OpenAIResponses from './openaiResponsesTypes';
 export * as Raw from './rawTypes';
 
 export enum OutputMode {
 	Raw = 1,
 	OpenAI = 1 << 1,
 	VSCode = 1 << 2,
+	Anthropic = 1 << 3,
+	Gemini = 1 << 4,
+	OpenAIResponses = 1 << 5,
+	ChatTemplate = 1 << 6,
 }
 
 /** Map of the mode to the type of message it produces. */
@@ -23,6 +80,10 @@ export interface ModeToChatMessageType {
 	[OutputMode.Raw]: RawChatMessage;
 	[OutputMode.VSCode]: LanguageModelChatMessage;
 	[OutputMode.OpenAI]: OpenAIChatMessage;
+	[OutputMode.Anthropic]: AnthropicChatMessage;
+	[OutputMode.Gemini]: GeminiContent;
+	[OutputMode.OpenAIResponses]: OpenAIResponsesChatMessage;
+	[OutputMode.ChatTemplate]: ChatTemplateChatMessage;
 }
 
 /**
@@ -55,11 +116,145 @@ export function toMode<Mode extends keyof ModeToChatMessageType>(
 			return (
 				messages instanceof Array ? toOpenAIChatMessages(messages) : toOpenAiChatMessage(messages)
 			) as ModeToChatMessageType[Mode];
-		default:
-			throw new Error(`Unknown output mode: ${mode}`);
+		case OutputMode.Anthropic:
+			return (
+				messages instanceof Array
+					? toAnthropicChatMessages(messages)
+					: toAnthropicChatMessage(messages)
+			) as ModeToChatMessageType[Mode];
+		case OutputMode.Gemini:
+			return (
+				messages instanceof Array ? toGeminiChatMessages(messages) : toGeminiChatMessage(messages)
+			) as ModeToChatMessageType[Mode];
+		case OutputMode.OpenAIResponses:
+			return (
+				messages instanceof Array
+					? toOpenAIResponsesMessages(messages)
+					: toOpenAIResponsesMessage(messages)
+			) as ModeToChatMessageType[Mode];
+		case OutputMode.ChatTemplate:
+			return (
+				messages instanceof Array
+					? toChatTemplateMessages(messages)
+					: toChatTemplateMessage(messages)
+			) as ModeToChatMessageType[Mode];
+		default: {
+			const custom = customModes.get(mode);
+			if (!custom) {
+				throw new Error(`Unknown output mode: ${mode}`);
+			}
+			if (!(messages instanceof Array)) {
+				return custom.toChatMessage(messages) as ModeToChatMessageType[Mode];
+			}
+			return (
+				custom.toChatMessages
+					? custom.toChatMessages(messages)
+					: messages.map(m => custom.toChatMessage(m)).filter(r => !!r)
+			) as ModeToChatMessageType[Mode][];
+		}
 	}
 }
 
+/**
+ * An output mode defined by an application. See {@link registerOutputMode}.
+ */
+export interface OutputModeDefinition<Mode extends keyof ModeToChatMessageType> {
+	/**
+	 * Converts a raw message to the mode's message type, or returns undefined
+	 * if the message has no representation in the mode.
+	 */
+	toChatMessage(message: RawChatMessage): ModeToChatMessageType[Mode] | undefined;
+
+	/**
+	 * Converts a list of raw messages. Defaults to converting each message
+	 * with {@link toChatMessage} and dropping undefined results. Provide this
+	 * if the conversion of one message depends on the others.
+	 */
+	toChatMessages?(messages: readonly RawChatMessage[]): ModeToChatMessageType[Mode][];
+
+	/**
+	 * Creates the tokenizer that measures prompts in this mode, the way the
+	 * mode's endpoint counts them. It's created once, when a
+	 * `PromptRenderer` is first given the mode instead of a tokenizer.
+	 */
+	createTokenizer?(): ITokenizer<Mode>;
+}
+
+const customModes = new Map<number, OutputModeDefinition<keyof ModeToChatMessageType>>();
+const customModeTokenizers = new Map<number, ITokenizer>();
+
+/**
+ * Registers an output mode defined by an application, so that it can be used
+ * with {@link toMode} and with a tokenizer that renders prompts in it.
+ *
+ * The mode must be a single bit that is not used by a built-in
+ * {@link OutputMode}, so that it can be used in the `scope` of opaque content
+ * parts. Declare the mode as a numeric literal and add its message type to
+ * {@link ModeToChatMessageType}:
+ *
+ * ```ts
+ * const MyMode = 0x10000;
+ *
+ * declare module '@vscode/prompt-tsx' {
+ *   interface ModeToChatMessageType {
+ *     [MyMode]: MyChatMessage;
+ *   }
+ * }
+ *
+ * registerOutputMode(MyMode, {
+ *   toChatMessage: m => ...,
+ *   createTokenizer: () => new MyTokenizer(),
+ * });
+ *
+ * new PromptRenderer(endpoint, MyPrompt, props, MyMode);
+ * ```
+ *
+ * @returns an object that unregisters the mode when disposed.
+ */
+export function registerOutputMode<Mode extends keyof ModeToChatMessageType>(
+	mode: Mode,
+	definition: OutputModeDefinition<Mode>
+): { dispose(): void } {
+	if (!Number.isInteger(mode) || mode <= 0 || (mode & (mode - 1)) !== 0) {
+		throw new Error(`Output mode must be a single bit, got ${mode}`);
+	}
+	if (OutputMode[mode] !== undefined) {
+		throw new Error(`Output mode ${mode} is reserved for OutputMode.${OutputMode[mode]}`);
+	}
+	if (customModes.has(mode)) {
+		throw new Error(`Output mode ${mode} is already registered`);
+	}
+
+	customModes.set(mode, definition);
+	return {
+		dispose: () => {
+			if (customModes.get(mode) === definition) {
+				customModes.delete(mode);
+				customModeTokenizers.delete(mode);
+			}
+		},
+	};
+}
+
+/**
+ * Gets the tokenizer of an output mode added with {@link registerOutputMode}.
+ */
+export function getOutputModeTokenizer<Mode extends keyof ModeToChatMessageType>(
+	mode: Mode
+): ITokenizer<Mode> {
+	let tokenizer = customModeTokenizers.get(mode);
+	if (!tokenizer) {
+		const custom = customModes.get(mode);
+		if (!custom?.createTokenizer) {
+			throw new Error(`No tokenizer is registered for output mode ${mode}`);
+		}
+		tokenizer = custom.createTokenizer();
+		customModeTokenizers.set(mode, tokenizer);
+	}
+
+	return tokenizer as ITokenizer<Mode>;
+}
+
 export function toVSCode(messages: RawChatMessage): LanguageModelChatMessage;
 export function toVSCode(messages: readonly RawChatMessage[]): LanguageModelChatMessage[];
 export function toVSCode(
@@ -75,3 +270,98 @@ export function toOpenAI(
 ): OpenAIChatMessage | OpenAIChatMessage[] {
 	return toMode(OutputMode.OpenAI, messages as any);
 }
+
+/**
+ * Converts messages to the prompt-related fields of an Anthropic Messages API
+ * request. Unlike `toMode(OutputMode.Anthropic, ...)`, which converts each
+ * message individually, system messages are lifted into the `system` field.
+ */
+export function toAnthropic(messages: readonly RawChatMessage[]): AnthropicMessagesRequest {
+	return toAnthropicRequest(messages);
+}
+
+/**
+ * Converts messages to the prompt-related fields of a Gemini `generateContent`
+ * request. Unlike `toMode(OutputMode.Gemini, ...)`, which converts each
+ * message individually, system messages are lifted into the
+ * `systemInstruction` and consecutive same-role contents are merged.
+ */
+export function toGemini(messages: readonly RawChatMessage[]): GeminiGenerateContentRequest {
+	return toGeminiRequest(messages);
+}
+
+/**
+ * Converts messages to the `input` array of an OpenAI Responses API request.
+ * Unlike `toMode(OutputMode.OpenAIResponses, ...)`, which returns the items
+ * for each message separately, the items are flattened into a single list.
+ */
+export function toOpenAIResponses(messages: readonly RawChatMessage[]): OpenAIResponsesInputItem[] {
+	return toOpenAIResponsesMessages(messages).flat();
+}
+
+/**
+ * Flattens messages into a single prompt string for a text completion
+ * endpoint, using a template such as {@link ChatTemplateTemplate ChatTemplate.ChatML}.
+ */
+export function toChatTemplate(
+	messages: readonly RawChatMessage[],
+	template: ChatTemplateTemplate
+): string {
+	return formatChatTemplate(template, toChatTemplateMessages(messages));
+}
+
+/**
+ * Converts chat messages in the {@link OutputMode.VSCode} representation back
+ * to the raw message representation.
+ */
+export function fromVSCode(messages: LanguageModelChatMessage): RawChatMessage | undefined;
+export function fromVSCode(messages: readonly LanguageModelChatMessage[]): RawChatMessage[];
+export function fromVSCode(
+	messages: readonly LanguageModelChatMessage[] | LanguageModelChatMessage
+): RawChatMessage | RawChatMessage[] | undefined {
+	return messages instanceof Array
+		? fromStandaloneChatMessages(messages)
+		: fromStandaloneChatMessage(messages);
+}
+
+/**
+ * Converts OpenAI Chat Completions messages, such as a persisted
+ * conversation, back to the raw message representation.
+ */
+export function fromOpenAI(messages: OpenAIChatMessage): RawChatMessage | undefined;
+export function fromOpenAI(messages: readonly OpenAIChatMessage[]): RawChatMessage[];
+export function fromOpenAI(
+	messages: readonly OpenAIChatMessage[] | OpenAIChatMessage
+): RawChatMessage | RawChatMessage[] | undefined {
+	return messages instanceof Array
+		? fromOpenAIChatMessages(messages)
+		: fromOpenAIChatMessage(messages);
+}
+
+/**
+ * Converts an Anthropic Messages API request, or a list of Anthropic messages,
+ * back to the raw message representation.
+ */
+export function fromAnthropic(
+	messages: AnthropicMessagesRequest | readonly AnthropicChatMessage[]
+): RawChatMessage[] {
+	return fromAnthropicRequest(messages);
+}
+
+/**
+ * Converts a Gemini `generateContent` request, or a list of Gemini contents,
+ * back to the raw message representation.
+ */
+export function fromGemini(
+	messages: GeminiGenerateContentRequest | readonly GeminiContent[]
+): RawChatMessage[] {
+	return fromGeminiRequest(messages);
+}
+
+/**
+ * Converts OpenAI Responses API input items back to the raw message
+ * representation.
+ */
+export function fromOpenAIResponses(items: readonly OpenAIResponsesInputItem[]): RawChatMessage[] {
+	return fromOpenAIResponsesItems(items);
+}
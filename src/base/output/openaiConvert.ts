@@ -28,6 +28,31 @@ function stringAndImageContent(
 					image_url: part.imageUrl,
 					type: 'image_url',
 				};
+			} else if (part.type === Raw.ChatCompletionContentPartKind.Document) {
+				if (!part.document.url.startsWith('data:')) {
+					Raw.ChatCompletionContentPartDocument.warnOmitted(
+						'OpenAI output only supports inline documents'
+					);
+					return undefined;
+				}
+				return {
+					type: 'file',
+					file: {
+						file_data: part.document.url,
+						...(part.document.title ? { filename: part.document.title } : {}),
+					},
+				};
+			} else if (part.type === Raw.ChatCompletionContentPartKind.Audio) {
+				if (part.audio.format !== 'wav' && part.audio.format !== 'mp3') {
+					Raw.ChatCompletionContentPartAudio.warnOmitted(
+						'OpenAI output only supports wav and mp3 audio'
+					);
+					return undefined;
+				}
+				return {
+					type: 'input_audio',
+					input_audio: { data: part.audio.data, format: part.audio.format },
+				};
 			} else if (
 				part.type === Raw.ChatCompletionContentPartKind.Opaque &&
 				Raw.ChatCompletionContentPartOpaque.usableIn(part, OutputMode.OpenAI)
@@ -53,6 +78,12 @@ export function toOpenAiChatMessage(message: Raw.ChatMessage): OpenAI.ChatMessag
 				content: onlyStringContent(message.content),
 				name: message.name,
 			};
+		case Raw.ChatRole.Developer:
+			return {
+				role: OpenAI.ChatRole.Developer,
+				content: onlyStringContent(message.content),
+				name: message.name,
+			};
 		case Raw.ChatRole.User:
 			return {
 				role: OpenAI.ChatRole.User,
@@ -60,6 +91,7 @@ export function toOpenAiChatMessage(message: Raw.ChatMessage): OpenAI.ChatMessag
 				name: message.name,
 			};
 		case Raw.ChatRole.Assistant:
+			// Chat Completions has no way to send reasoning back, so thinking parts are dropped
 			return {
 				role: OpenAI.ChatRole.Assistant,
 				content: onlyStringContent(message.content),
@@ -84,3 +116,100 @@ export function toOpenAiChatMessage(message: Raw.ChatMessage): OpenAI.ChatMessag
 export function toOpenAIChatMessages(messages: readonly Raw.ChatMessage[]): OpenAI.ChatMessage[] {
 	return messages.map(toOpenAiChatMessage).filter(r => !!r);
 }
+
+function fromOpenAIContent(
+	content: string | OpenAI.ChatCompletionContentPart[] | null | undefined
+): Raw.ChatCompletionContentPart[] {
+	if (!content) {
+		return [];
+	} else if (typeof content === 'string') {
+		return [{ type: Raw.ChatCompletionContentPartKind.Text, text: content }];
+	}
+
+	return content.map((part): Raw.ChatCompletionContentPart => {
+		if (part.type === 'text') {
+			return { type: Raw.ChatCompletionContentPartKind.Text, text: part.text };
+		} else if (part.type === 'image_url') {
+			return { type: Raw.ChatCompletionContentPartKind.Image, imageUrl: { ...part.image_url } };
+		} else if (part.type === 'file' && part.file.file_data) {
+			const mimeType = /^data:([^;,]+)/.exec(part.file.file_data)?.[1];
+			return {
+				type: Raw.ChatCompletionContentPartKind.Document,
+				document: {
+					url: part.file.file_data,
+					mimeType: mimeType ?? 'application/octet-stream',
+					...(part.file.filename ? { title: part.file.filename } : {}),
+				},
+			};
+		} else if (part.type === 'input_audio') {
+			return { type: Raw.ChatCompletionContentPartKind.Audio, audio: { ...part.input_audio } };
+		} else {
+			// Unknown parts are kept as-is, but only for OpenAI output
+			return {
+				type: Raw.ChatCompletionContentPartKind.Opaque,
+				value: part,
+				scope: OutputMode.OpenAI,
+			};
+		}
+	});
+}
+
+export function fromOpenAIChatMessage(message: OpenAI.ChatMessage): Raw.ChatMessage | undefined {
+	switch (message.role) {
+		case OpenAI.ChatRole.System:
+			return {
+				role: Raw.ChatRole.System,
+				content: fromOpenAIContent(message.content),
+				...(message.name ? { name: message.name } : {}),
+			};
+		case OpenAI.ChatRole.Developer:
+			return {
+				role: Raw.ChatRole.Developer,
+				content: fromOpenAIContent(message.content),
+				...(message.name ? { name: message.name } : {}),
+			};
+		case OpenAI.ChatRole.User:
+			return {
+				role: Raw.ChatRole.User,
+				content: fromOpenAIContent(message.content),
+				...(message.name ? { name: message.name } : {}),
+			};
+		case OpenAI.ChatRole.Assistant: {
+			const result: Raw.AssistantChatMessage = {
+				role: Raw.ChatRole.Assistant,
+				content: fromOpenAIContent(message.content),
+			};
+			if (message.name) {
+				result.name = message.name;
+			}
+			if (message.tool_calls?.length) {
+				result.toolCalls = message.tool_calls.map(toolCall => ({
+					id: toolCall.id,
+					function: { name: toolCall.function.name, arguments: toolCall.function.arguments },
+					type: 'function',
+				}));
+			}
+			return result;
+		}
+		case OpenAI.ChatRole.Tool:
+			return {
+				role: Raw.ChatRole.Tool,
+				content: fromOpenAIContent(message.content),
+				toolCallId: message.tool_call_id ?? '',
+			};
+		case OpenAI.ChatRole.Function:
+			// Legacy function results are identified only by the function name
+			return {
+				role: Raw.ChatRole.Tool,
+				content: fromOpenAIContent(message.content),
+				name: message.name,
+				toolCallId: message.name,
+			};
+		default:
+			return undefined;
+	}
+}
+
+export function fromOpenAIChatMessages(messages: readonly OpenAI.ChatMessage[]): Raw.ChatMessage[] {
+	return messages.map(fromOpenAIChatMessage).filter(r => !!r);
+}
@@ -0,0 +1,241 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+import * as Raw from './rawTypes';
+import * as OpenAIResponses from './openaiResponsesTypes';
+import { OutputMode } from './mode';
+
+function onlyStringContent(content: Raw.ChatCompletionContentPart[]): string {
+	return content
+		.filter(part => part.type === Raw.ChatCompletionContentPartKind.Text)
+		.map(part => part.text)
+		.join('');
+}
+
+function stringAndImageContent(
+	content: Raw.ChatCompletionContentPart[]
+): string | OpenAIResponses.InputContent[] {
+	const parts = content
+		.map((part): OpenAIResponses.InputContent | undefined => {
+			if (part.type === Raw.ChatCompletionContentPartKind.Text) {
+				return { type: 'input_text', text: part.text };
+			} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+				return {
+					type: 'input_image',
+					image_url: part.imageUrl.url,
+					detail: part.imageUrl.detail ?? 'auto',
+				};
+			} else if (part.type === Raw.ChatCompletionContentPartKind.Document) {
+				const { url, title } = part.document;
+				return {
+					type: 'input_file',
+					...(url.startsWith('data:') ? { file_data: url } : { file_url: url }),
+					...(title ? { filename: title } : {}),
+				};
+			} else if (part.type === Raw.ChatCompletionContentPartKind.Audio) {
+				Raw.ChatCompletionContentPartAudio.warnOmitted(
+					'OpenAI Responses output does not support audio'
+				);
+			} else if (
+				part.type === Raw.ChatCompletionContentPartKind.Opaque &&
+				Raw.ChatCompletionContentPartOpaque.usableIn(part, OutputMode.OpenAIResponses)
+			) {
+				return part.value as OpenAIResponses.InputContent;
+			}
+		})
+		.filter(r => !!r);
+
+	if (parts.every(part => part.type === 'input_text')) {
+		return parts.map(p => (p as OpenAIResponses.InputText).text).join('');
+	}
+
+	return parts;
+}
+
+export function toOpenAIResponsesMessage(
+	message: Raw.ChatMessage
+): OpenAIResponses.ChatMessage | undefined {
+	switch (message.role) {
+		case Raw.ChatRole.System:
+			return [
+				{
+					type: 'message',
+					role: OpenAIResponses.ChatRole.System,
+					content: onlyStringContent(message.content),
+				},
+			];
+		case Raw.ChatRole.Developer:
+			return [
+				{
+					type: 'message',
+					role: OpenAIResponses.ChatRole.Developer,
+					content: onlyStringContent(message.content),
+				},
+			];
+		case Raw.ChatRole.User:
+			return [
+				{
+					type: 'message',
+					role: OpenAIResponses.ChatRole.User,
+					content: stringAndImageContent(message.content),
+				},
+			];
+		case Raw.ChatRole.Assistant: {
+			// Reasoning precedes the output it led to
+			const items: OpenAIResponses.InputItem[] = message.content
+				.filter(part => part.type === Raw.ChatCompletionContentPartKind.Thinking)
+				.map(part => ({
+					type: 'reasoning',
+					...(part.id ? { id: part.id } : {}),
+					summary: part.text ? [{ type: 'summary_text', text: part.text }] : [],
+					...(part.signature ? { encrypted_content: part.signature } : {}),
+				}));
+			const text = onlyStringContent(message.content);
+			// Tool calls are separate items, so only emit a message if there's text
+			if (text || !message.toolCalls?.length) {
+				items.push({ type: 'message', role: OpenAIResponses.ChatRole.Assistant, content: text });
+			}
+			for (const toolCall of message.toolCalls ?? []) {
+				items.push({
+					type: 'function_call',
+					call_id: toolCall.id,
+					name: toolCall.function.name,
+					arguments: toolCall.function.arguments,
+				});
+			}
+			return items;
+		}
+		case Raw.ChatRole.Tool:
+			return [
+				{
+					type: 'function_call_output',
+					call_id: message.toolCallId,
+					output: stringAndImageContent(message.content),
+				},
+			];
+		default:
+			return undefined;
+	}
+}
+
+export function toOpenAIResponsesMessages(
+	messages: readonly Raw.ChatMessage[]
+): OpenAIResponses.ChatMessage[] {
+	return messages.map(toOpenAIResponsesMessage).filter(r => !!r);
+}
+
+function fromInputContent(
+	content: string | readonly OpenAIResponses.InputContent[]
+): Raw.ChatCompletionContentPart[] {
+	if (typeof content === 'string') {
+		return content ? [{ type: Raw.ChatCompletionContentPartKind.Text, text: content }] : [];
+	}
+
+	return content.map((part): Raw.ChatCompletionContentPart => {
+		if (part.type === 'input_image') {
+			return {
+				type: Raw.ChatCompletionContentPartKind.Image,
+				imageUrl: {
+					url: part.image_url,
+					...(part.detail !== 'auto' ? { detail: part.detail } : {}),
+				},
+			};
+		} else if (part.type === 'input_file' && (part.file_data || part.file_url)) {
+			return {
+				type: Raw.ChatCompletionContentPartKind.Document,
+				document: {
+					url: (part.file_data || part.file_url)!,
+					mimeType: /^data:([^;,]+)/.exec(part.file_data ?? '')?.[1] ?? 'application/octet-stream',
+					...(part.filename ? { title: part.filename } : {}),
+				},
+			};
+		} else if (typeof (part as { text?: unknown }).text === 'string') {
+			// `input_text`, or `output_text` in assistant messages from prior responses
+			return {
+				type: Raw.ChatCompletionContentPartKind.Text,
+				text: (part as { text: string }).text,
+			};
+		}
+
+		// Unknown parts are kept as-is, but only for Responses API output
+		return {
+			type: Raw.ChatCompletionContentPartKind.Opaque,
+			value: part,
+			scope: OutputMode.OpenAIResponses,
+		};
+	});
+}
+
+/**
+ * Converts Responses API input items back to raw messages. Consecutive
+ * `reasoning` and `function_call` items are attached to the preceding
+ * assistant message.
+ */
+export function fromOpenAIResponsesItems(
+	items: readonly OpenAIResponses.InputItem[]
+): Raw.ChatMessage[] {
+	const result: Raw.ChatMessage[] = [];
+	for (const item of items) {
+		switch (item.type) {
+			case 'message': {
+				const content = fromInputContent(item.content);
+				const prev = result.at(-1);
+				if (item.role === OpenAIResponses.ChatRole.System) {
+					result.push({ role: Raw.ChatRole.System, content });
+				} else if (item.role === OpenAIResponses.ChatRole.Developer) {
+					result.push({ role: Raw.ChatRole.Developer, content });
+				} else if (
+					item.role === OpenAIResponses.ChatRole.Assistant &&
+					prev?.role === Raw.ChatRole.Assistant &&
+					!prev.toolCalls &&
+					!prev.content.some(p => p.type !== Raw.ChatCompletionContentPartKind.Thinking)
+				) {
+					// The message follows the reasoning items of the same turn
+					prev.content.push(...content);
+				} else if (item.role === OpenAIResponses.ChatRole.Assistant) {
+					result.push({ role: Raw.ChatRole.Assistant, content });
+				} else {
+					result.push({ role: Raw.ChatRole.User, content });
+				}
+				break;
+			}
+			case 'function_call': {
+				let assistant = result.at(-1);
+				if (assistant?.role !== Raw.ChatRole.Assistant) {
+					assistant = { role: Raw.ChatRole.Assistant, content: [] };
+					result.push(assistant);
+				}
+				assistant.toolCalls ??= [];
+				assistant.toolCalls.push({
+					id: item.call_id,
+					function: { name: item.name, arguments: item.arguments },
+					type: 'function',
+				});
+				break;
+			}
+			case 'reasoning': {
+				let assistant = result.at(-1);
+				if (assistant?.role !== Raw.ChatRole.Assistant) {
+					assistant = { role: Raw.ChatRole.Assistant, content: [] };
+					result.push(assistant);
+				}
+				assistant.content.push({
+					type: Raw.ChatCompletionContentPartKind.Thinking,
+					text: item.summary.map(s => s.text).join('\n\n'),
+					...(item.encrypted_content ? { signature: item.encrypted_content } : {}),
+					...(item.id ? { id: item.id } : {}),
+				});
+				break;
+			}
+			case 'function_call_output':
+				result.push({
+					role: Raw.ChatRole.Tool,
+					toolCallId: item.call_id,
+					content: fromInputContent(item.output),
+				});
+				break;
+		}
+	}
+
+	return result;
+}
@@ -0,0 +1,145 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { toOpenAIResponses } from './mode';
+
+/**
+ * The OpenAI Responses API input items produced from a single chat message.
+ * Most messages produce a single `message` item, but assistant tool calls
+ * and tool results are top-level items of their own. Use
+ * {@link toOpenAIResponses} to get the flat `input` array for a request.
+ *
+ * Reference: https://platform.openai.com/docs/api-reference/responses/create
+ */
+export type ChatMessage = InputItem[];
+
+export type InputItem = MessageItem | FunctionCallItem | FunctionCallOutputItem | ReasoningItem;
+
+export interface MessageItem {
+	type: 'message';
+
+	role: ChatRole;
+
+	/**
+	 * The content of the message. System, developer and assistant messages are
+	 * always plain text.
+	 */
+	content: string | InputContent[];
+}
+
+export interface FunctionCallItem {
+	type: 'function_call';
+
+	/**
+	 * The ID of the tool call.
+	 */
+	call_id: string;
+
+	/**
+	 * The name of the function that the model called.
+	 */
+	name: string;
+
+	/**
+	 * The arguments to call the function with, in JSON format.
+	 */
+	arguments: string;
+}
+
+export interface FunctionCallOutputItem {
+	type: 'function_call_output';
+
+	/**
+	 * The ID of the tool call this item is responding to.
+	 */
+	call_id: string;
+
+	/**
+	 * The output of the function call.
+	 */
+	output: string | InputContent[];
+}
+
+export interface ReasoningItem {
+	type: 'reasoning';
+
+	/**
+	 * The ID of the reasoning item, from a previous response.
+	 */
+	id?: string;
+
+	/**
+	 * Summaries of the model's reasoning.
+	 */
+	summary: SummaryText[];
+
+	/**
+	 * The encrypted reasoning, returned when requested with
+	 * `include: ['reasoning.encrypted_content']`.
+	 */
+	encrypted_content?: string;
+}
+
+export interface SummaryText {
+	type: 'summary_text';
+
+	/**
+	 * The summary text.
+	 */
+	text: string;
+}
+
+export type InputContent = InputText | InputImage | InputFile;
+
+export interface InputText {
+	type: 'input_text';
+
+	/**
+	 * The text content.
+	 */
+	text: string;
+}
+
+export interface InputImage {
+	type: 'input_image';
+
+	/**
+	 * Either a URL of the image or the base64 encoded image data.
+	 */
+	image_url: string;
+
+	/**
+	 * Specifies the detail level of the image.
+	 */
+	detail: 'low' | 'high' | 'auto';
+}
+
+export interface InputFile {
+	type: 'input_file';
+
+	/**
+	 * The base64 encoded file data, as a `data:` URL.
+	 */
+	file_data?: string;
+
+	/**
+	 * The URL of the file.
+	 */
+	file_url?: string;
+
+	/**
+	 * The name of the file.
+	 */
+	filename?: string;
+}
+
+/**
+ * The role of a message item in an OpenAI Responses API request.
+ */
+export enum ChatRole {
+	System = 'system',
+	Developer = 'developer',
+	User = 'user',
+	Assistant = 'assistant',
+}
@@ -12,7 +12,8 @@ export type ChatMessage =
 	| SystemChatMessage
 	| UserChatMessage
 	| ToolChatMessage
-	| FunctionChatMessage;
+	| FunctionChatMessage
+	| DeveloperChatMessage;
 
 export interface SystemChatMessage {
 	role: ChatRole.System;
@@ -28,6 +29,20 @@ export interface SystemChatMessage {
 	name?: string;
 }
 
+export interface DeveloperChatMessage {
+	role: ChatRole.Developer;
+
+	/**
+	 * The content of the chat message.
+	 */
+	content: string;
+
+	/**
+	 * An optional name for the participant. Provides the model information to differentiate between participants of the same role.
+	 */
+	name?: string;
+}
+
 export interface UserChatMessage {
 	role: ChatRole.User;
 
@@ -42,7 +57,11 @@ export interface UserChatMessage {
 	name?: string;
 }
 
-export type ChatCompletionContentPart = ChatCompletionContentPartImage | ChatCompletionContentPartText;
+export type ChatCompletionContentPart =
+	| ChatCompletionContentPartImage
+	| ChatCompletionContentPartText
+	| ChatCompletionContentPartFile
+	| ChatCompletionContentPartInputAudio;
 
 export interface ChatCompletionContentPartImage {
 	image_url: ChatCompletionContentPartImage.ImageURL;
@@ -80,6 +99,57 @@ export interface ChatCompletionContentPartText {
 	type: 'text';
 }
 
+export interface ChatCompletionContentPartFile {
+	file: ChatCompletionContentPartFile.File;
+
+	/**
+	 * The type of the content part.
+	 */
+	type: 'file';
+}
+
+export namespace ChatCompletionContentPartFile {
+	export interface File {
+		/**
+		 * The base64 encoded file data, as a `data:` URL.
+		 */
+		file_data?: string;
+
+		/**
+		 * The ID of a previously uploaded file.
+		 */
+		file_id?: string;
+
+		/**
+		 * The name of the file.
+		 */
+		filename?: string;
+	}
+}
+
+export interface ChatCompletionContentPartInputAudio {
+	input_audio: ChatCompletionContentPartInputAudio.InputAudio;
+
+	/**
+	 * The type of the content part.
+	 */
+	type: 'input_audio';
+}
+
+export namespace ChatCompletionContentPartInputAudio {
+	export interface InputAudio {
+		/**
+		 * The base64 encoded audio data.
+		 */
+		data: string;
+
+		/**
+		 * The format of the encoded audio data.
+		 */
+		format: 'wav' | 'mp3';
+	}
+}
+
 export interface ChatMessageToolCall {
 	/**
 	 * The ID of the tool call.
@@ -174,6 +244,7 @@ export enum ChatRole {
 	Assistant = 'assistant',
 	Function = 'function',
 	Tool = 'tool',
+	Developer = 'developer',
 }
 
 /**
@@ -190,3 +261,13 @@ export const BaseTokensPerMessage = 3;
  * Since gpt-3.5-turbo-0613 each name costs 1 token
  */
 export const BaseTokensPerName = 1;
+/*
+ * Each tool call is estimated to cost 3 tokens in addition to its name and arguments.
+ * This has not been checked against the prompt tokens the API reports.
+ */
+export const BaseTokensPerToolCall = 3;
+/*
+ * The ID of the tool call that a tool message responds to is estimated to be 1 token.
+ * This has not been checked against the prompt tokens the API reports.
+ */
+export const BaseTokensPerToolCallId = 1;
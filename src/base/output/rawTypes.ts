@@ -19,7 +19,8 @@ export type ChatMessage =
 	| AssistantChatMessage
 	| SystemChatMessage
 	| UserChatMessage
-	| ToolChatMessage;
+	| ToolChatMessage
+	| DeveloperChatMessage;
 
 /**
  * The role of a message in an OpenAI completions request.
@@ -29,6 +30,7 @@ export enum ChatRole {
 	User,
 	Assistant,
 	Tool,
+	Developer,
 }
 
 export namespace ChatRole {
@@ -42,6 +44,8 @@ export namespace ChatRole {
 				return 'assistant';
 			case ChatRole.Tool:
 				return 'tool';
+			case ChatRole.Developer:
+				return 'developer';
 			default:
 				assertNever(role, `unknown chat role ${role}}`);
 		}
@@ -61,6 +65,15 @@ export interface SystemChatMessage extends BaseChatMessage {
 	role: ChatRole.System;
 }
 
+/**
+ * Instructions from the application, which newer OpenAI models use in place
+ * of system messages. Outputs without a developer role send it as a system
+ * message.
+ */
+export interface DeveloperChatMessage extends BaseChatMessage {
+	role: ChatRole.Developer;
+}
+
 export interface UserChatMessage extends BaseChatMessage {
 	role: ChatRole.User;
 }
@@ -69,13 +82,19 @@ export type ChatCompletionContentPart =
 	| ChatCompletionContentPartImage
 	| ChatCompletionContentPartText
 	| ChatCompletionContentPartOpaque
-	| ChatCompletionContentPartCacheBreakpoint;
+	| ChatCompletionContentPartCacheBreakpoint
+	| ChatCompletionContentPartThinking
+	| ChatCompletionContentPartDocument
+	| ChatCompletionContentPartAudio;
 
 export enum ChatCompletionContentPartKind {
 	Image,
 	Text,
 	Opaque,
 	CacheBreakpoint,
+	Thinking,
+	Document,
+	Audio,
 }
 
 /** An image completion */
@@ -84,6 +103,81 @@ export interface ChatCompletionContentPartImage {
 	type: ChatCompletionContentPartKind.Image;
 }
 
+/** A document attachment, such as a PDF or a text file */
+export interface ChatCompletionContentPartDocument {
+	document: DocumentReference;
+	type: ChatCompletionContentPartKind.Document;
+}
+
+export namespace ChatCompletionContentPartDocument {
+	/**
+	 * Approximate bytes per token, used when the tokenizer cannot measure a
+	 * document itself.
+	 */
+	export const BytesPerToken = 4;
+
+	/**
+	 * Estimates the token usage of an inline document from its size, or 0 if
+	 * the document is referenced by URL.
+	 */
+	export function estimateTokens(part: ChatCompletionContentPartDocument) {
+		const match = /^data:[^,]*;base64,(.*)$/s.exec(part.document.url);
+		if (!match) {
+			return 0;
+		}
+
+		const data = match[1].replace(/=+$/, '');
+		return Math.ceil(Math.floor((data.length * 3) / 4) / BytesPerToken);
+	}
+
+	/**
+	 * Warns, once per reason, that documents were omitted when converting
+	 * messages for an output that cannot represent them.
+	 */
+	export function warnOmitted(reason: string) {
+		warnOnce(`prompt-tsx: document attachments were omitted: ${reason}`);
+	}
+}
+
+/** A recorded audio clip */
+export interface ChatCompletionContentPartAudio {
+	audio: AudioReference;
+	type: ChatCompletionContentPartKind.Audio;
+}
+
+export namespace ChatCompletionContentPartAudio {
+	/**
+	 * Approximate tokens per second of audio, used when the tokenizer cannot
+	 * measure audio itself.
+	 */
+	export const TokensPerSecond = 10;
+
+	/**
+	 * Estimates the token usage of the audio from its duration, or 0 if the
+	 * duration is unknown.
+	 */
+	export function estimateTokens(part: ChatCompletionContentPartAudio) {
+		return Math.ceil((part.audio.duration ?? 0) * TokensPerSecond);
+	}
+
+	/**
+	 * Warns, once per reason, that audio was omitted when converting messages
+	 * for an output that cannot represent it.
+	 */
+	export function warnOmitted(reason: string) {
+		warnOnce(`prompt-tsx: audio was omitted: ${reason}`);
+	}
+}
+
+const warned = new Set<string>();
+
+function warnOnce(message: string) {
+	if (!warned.has(message)) {
+		warned.add(message);
+		console.warn(message);
+	}
+}
+
 export interface ChatCompletionContentPartCacheBreakpoint {
 	type: ChatCompletionContentPartKind.CacheBreakpoint;
 	/**
@@ -92,6 +186,33 @@ export interface ChatCompletionContentPartCacheBreakpoint {
 	cacheType?: string;
 }
 
+/**
+ * Reasoning produced by the model in a previous assistant turn. Reasoning
+ * models may require these to be sent back verbatim, for example in
+ * multi-turn tool use. Outputs that cannot represent reasoning drop it.
+ */
+export interface ChatCompletionContentPartThinking {
+	type: ChatCompletionContentPartKind.Thinking;
+
+	/**
+	 * The reasoning text, or its summary. This is empty if the provider only
+	 * returned encrypted reasoning.
+	 */
+	text: string;
+
+	/**
+	 * The signature that verifies the reasoning text, or the encrypted
+	 * reasoning payload if `text` is empty. This must be echoed back exactly as
+	 * the provider returned it.
+	 */
+	signature?: string;
+
+	/**
+	 * The provider's ID for the reasoning, if it has one.
+	 */
+	id?: string;
+}
+
 export interface ImageURLReference {
 	/**
 	 * Either a URL of the image or the base64 encoded image data.
@@ -105,6 +226,40 @@ export interface ImageURLReference {
 	detail?: 'low' | 'high';
 }
 
+export interface DocumentReference {
+	/**
+	 * Either a URL of the document or a base64 encoded `data:` URL.
+	 */
+	url: string;
+
+	/**
+	 * The mime type of the document, such as `application/pdf`.
+	 */
+	mimeType: string;
+
+	/**
+	 * An optional title of the document, such as its file name.
+	 */
+	title?: string;
+}
+
+export interface AudioReference {
+	/**
+	 * The base64 encoded audio data.
+	 */
+	data: string;
+
+	/**
+	 * The encoding of the audio, such as `wav` or `mp3`.
+	 */
+	format: string;
+
+	/**
+	 * The duration of the audio in seconds, used to estimate its token usage.
+	 */
+	duration?: number;
+}
+
 export interface ChatCompletionContentPartText {
 	/**
 	 * The text content.
@@ -143,7 +298,7 @@ export interface ChatCompletionContentPartOpaque {
 }
 
 export namespace ChatCompletionContentPartOpaque {
-	export function usableIn(part: ChatCompletionContentPartOpaque, mode: OutputMode) {
+	export function usableIn(part: ChatCompletionContentPartOpaque, mode: number) {
 		return !part.scope || (part.scope & mode) !== 0;
 	}
 }
@@ -202,3 +357,23 @@ export interface ChatMessageFunction {
 	 */
 	name: string;
 }
+
+/**
+ * A tool that the model may call.
+ */
+export interface ToolDefinition {
+	/**
+	 * The name of the tool.
+	 */
+	name: string;
+
+	/**
+	 * A description of what the tool does, used by the model to choose when and how to call it.
+	 */
+	description?: string;
+
+	/**
+	 * The input the tool accepts, described as a JSON Schema object.
+	 */
+	parameters?: Record<string, unknown>;
+}
@@ -1,5 +1,11 @@
-import type { LanguageModelChatMessage } from '../standalone-types';
-import { LanguageModelChatMessageRole } from '../standalone-types';
+import type { LanguageModelChatMessage, LanguageModelChatMessagePart } from '../standalone-types';
+import {
+	LanguageModelChatMessageRole,
+	LanguageModelImagePart,
+	LanguageModelTextPart,
+	LanguageModelToolCallPart,
+	LanguageModelToolResultPart,
+} from '../standalone-types';
 import * as Raw from './rawTypes';
 
 function onlyStringContent(content: Raw.ChatCompletionContentPart[]): string {
@@ -9,20 +15,75 @@ function onlyStringContent(content: Raw.ChatCompletionContentPart[]): string {
 		.join('');
 }
 
+function textAndImageParts(
+	content: Raw.ChatCompletionContentPart[]
+): (LanguageModelTextPart | LanguageModelImagePart)[] {
+	const parts: (LanguageModelTextPart | LanguageModelImagePart)[] = [];
+	for (const part of content) {
+		if (part.type === Raw.ChatCompletionContentPartKind.Text) {
+			const last = parts.at(-1);
+			if (last instanceof LanguageModelTextPart) {
+				last.value += part.text;
+			} else {
+				parts.push(new LanguageModelTextPart(part.text));
+			}
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+			parts.push(new LanguageModelImagePart(part.imageUrl.url, part.imageUrl.detail));
+		}
+	}
+	return parts;
+}
+
+function hasImages(content: Raw.ChatCompletionContentPart[]) {
+	return content.some(part => part.type === Raw.ChatCompletionContentPartKind.Image);
+}
+
+function toToolCallPart(tc: Raw.ChatMessageToolCall): LanguageModelToolCallPart {
+	let parsedArgs: object;
+	try {
+		parsedArgs = JSON.parse(tc.function.arguments);
+	} catch (err) {
+		throw new Error('Invalid JSON in tool call arguments for tool call: ' + tc.id);
+	}
+
+	return new LanguageModelToolCallPart(tc.id, tc.function.name, parsedArgs);
+}
+
 export function toStandaloneChatMessage(m: Raw.ChatMessage): LanguageModelChatMessage | undefined {
+	if (m.content.some(part => part.type === Raw.ChatCompletionContentPartKind.Document)) {
+		Raw.ChatCompletionContentPartDocument.warnOmitted('VS Code output does not support documents');
+	}
+	if (m.content.some(part => part.type === Raw.ChatCompletionContentPartKind.Audio)) {
+		Raw.ChatCompletionContentPartAudio.warnOmitted('VS Code output does not support audio');
+	}
+
 	switch (m.role) {
-		case Raw.ChatRole.Assistant:
-			return {
+		case Raw.ChatRole.Assistant: {
+			const message: LanguageModelChatMessage = {
 				role: LanguageModelChatMessageRole.Assistant,
 				content: onlyStringContent(m.content),
 				name: m.name,
 			};
-		case Raw.ChatRole.User:
-			return {
+			if (m.toolCalls?.length || hasImages(m.content)) {
+				message.parts = [
+					...textAndImageParts(m.content),
+					...(m.toolCalls ?? []).map(toToolCallPart),
+				];
+			}
+			return message;
+		}
+		case Raw.ChatRole.User: {
+			const message: LanguageModelChatMessage = {
 				role: LanguageModelChatMessageRole.User,
 				content: onlyStringContent(m.content),
 				name: m.name,
 			};
+			if (hasImages(m.content)) {
+				message.parts = textAndImageParts(m.content);
+			}
+			return message;
+		}
+		case Raw.ChatRole.Developer:
 		case Raw.ChatRole.System:
 			return {
 				role: LanguageModelChatMessageRole.System,
@@ -30,10 +91,11 @@ export function toStandaloneChatMessage(m: Raw.ChatMessage): LanguageModelChatMe
 				name: m.name,
 			};
 		case Raw.ChatRole.Tool:
-			// Tool messages are converted to user messages with special formatting
+			// Like in VS Code, tool results are sent as a part of a user message
 			return {
 				role: LanguageModelChatMessageRole.User,
-				content: `Tool result: ${onlyStringContent(m.content)}`,
+				content: onlyStringContent(m.content),
+				parts: [new LanguageModelToolResultPart(m.toolCallId, textAndImageParts(m.content))],
 				name: m.name,
 			};
 		default:
@@ -52,6 +114,119 @@ export function toStandaloneChatMessages(
 	return messages.map(toStandaloneChatMessage).filter(r => !!r) as LanguageModelChatMessage[];
 }
 
+function fromTextAndImageParts(
+	parts: readonly LanguageModelChatMessagePart[]
+): Raw.ChatCompletionContentPart[] {
+	const content: Raw.ChatCompletionContentPart[] = [];
+	for (const part of parts) {
+		if (part instanceof LanguageModelTextPart) {
+			if (part.value) {
+				content.push({ type: Raw.ChatCompletionContentPartKind.Text, text: part.value });
+			}
+		} else if (part instanceof LanguageModelImagePart) {
+			content.push({
+				type: Raw.ChatCompletionContentPartKind.Image,
+				imageUrl: { url: part.url, ...(part.detail ? { detail: part.detail } : {}) },
+			});
+		}
+	}
+	return content;
+}
+
+function fromStandaloneChatMessageParts(m: LanguageModelChatMessage): Raw.ChatMessage[] {
+	const name = m.name ? { name: m.name } : {};
+	if (!m.parts) {
+		const message = fromStandaloneChatMessage(m);
+		return message ? [message] : [];
+	}
+
+	const result: Raw.ChatMessage[] = [];
+	const content = fromTextAndImageParts(m.parts);
+	const toolCalls = m.parts
+		.filter(part => part instanceof LanguageModelToolCallPart)
+		.map(
+			(part): Raw.ChatMessageToolCall => ({
+				id: part.callId,
+				function: { name: part.name, arguments: JSON.stringify(part.parameters) },
+				type: 'function',
+			})
+		);
+
+	switch (m.role) {
+		case LanguageModelChatMessageRole.Assistant:
+			result.push({
+				role: Raw.ChatRole.Assistant,
+				content,
+				...(toolCalls.length ? { toolCalls } : {}),
+				...name,
+			});
+			break;
+		case LanguageModelChatMessageRole.User:
+			if (content.length || !m.parts.some(p => p instanceof LanguageModelToolResultPart)) {
+				result.push({ role: Raw.ChatRole.User, content, ...name });
+			}
+			break;
+		case LanguageModelChatMessageRole.System:
+			result.push({ role: Raw.ChatRole.System, content, ...name });
+			break;
+	}
+
+	for (const part of m.parts) {
+		if (part instanceof LanguageModelToolResultPart) {
+			result.push({
+				role: Raw.ChatRole.Tool,
+				toolCallId: part.callId,
+				content: fromTextAndImageParts(part.content),
+				...name,
+			});
+		}
+	}
+
+	return result;
+}
+
+/**
+ * Converts a {@link LanguageModelChatMessage standalone chat message} back to
+ * a {@link ChatMessage}. A user message that only contains a tool result is
+ * converted to a tool message. Use {@link fromStandaloneChatMessages} for
+ * messages that contain several tool results, which each become a separate
+ * tool message.
+ */
+export function fromStandaloneChatMessage(
+	m: LanguageModelChatMessage
+): Raw.ChatMessage | undefined {
+	if (m.parts) {
+		return fromStandaloneChatMessageParts(m)[0];
+	}
+
+	const content: Raw.ChatCompletionContentPart[] = m.content
+		? [{ type: Raw.ChatCompletionContentPartKind.Text, text: m.content }]
+		: [];
+	const name = m.name ? { name: m.name } : {};
+
+	switch (m.role) {
+		case LanguageModelChatMessageRole.Assistant:
+			return { role: Raw.ChatRole.Assistant, content, ...name };
+		case LanguageModelChatMessageRole.User:
+			return { role: Raw.ChatRole.User, content, ...name };
+		case LanguageModelChatMessageRole.System:
+			return { role: Raw.ChatRole.System, content, ...name };
+		default:
+			return undefined;
+	}
+}
+
+/**
+ * Converts an array of {@link LanguageModelChatMessage standalone chat messages} back to {@link ChatMessage} objects.
+ * @param messages - The array of {@link LanguageModelChatMessage standalone chat messages} to convert.
+ * @returns An array of {@link ChatMessage} objects.
+ */
+export function fromStandaloneChatMessages(
+	messages: readonly LanguageModelChatMessage[]
+): Raw.ChatMessage[] {
+	return messages.flatMap(fromStandaloneChatMessageParts);
+}
+
 // Keep the original vscode functions for backward compatibility
 export function toVsCodeChatMessage(m: Raw.ChatMessage): any | undefined {
 	// This function will only work in VS Code environment
@@ -14,6 +14,12 @@ export function toVsCodeChatMessage(
 	m: Raw.ChatMessage
 ): vscodeType.LanguageModelChatMessage | undefined {
 	vscode ??= require('vscode');
+	if (m.content.some(part => part.type === Raw.ChatCompletionContentPartKind.Document)) {
+		Raw.ChatCompletionContentPartDocument.warnOmitted('VS Code output does not support documents');
+	}
+	if (m.content.some(part => part.type === Raw.ChatCompletionContentPartKind.Audio)) {
+		Raw.ChatCompletionContentPartAudio.warnOmitted('VS Code output does not support audio');
+	}
 
 	switch (m.role) {
 		case Raw.ChatRole.Assistant:
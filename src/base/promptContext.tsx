@@ -0,0 +1,72 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import { PromptElement } from './promptElement';
+import { BasePromptElementProps, PromptElementCtor, PromptPiece } from './types';
+
+export interface PromptContextProviderProps<T> extends BasePromptElementProps {
+	value: T;
+}
+
+/**
+ * A value that's passed down the prompt tree without threading it through
+ * the props of each element. Created with {@link createPromptContext}.
+ */
+export interface PromptContext<T> {
+	/**
+	 * An element that provides a value to the elements rendered inside it.
+	 * Like other wrapper elements, it can be given a `priority` and set
+	 * `passPriority`.
+	 */
+	readonly Provider: PromptElementCtor<PromptContextProviderProps<T>, void>;
+
+	/** The value read by elements that aren't inside a {@link Provider}. */
+	readonly defaultValue: T;
+}
+
+/** @internal */
+export abstract class PromptContextProvider<T> extends PromptElement<
+	PromptContextProviderProps<T>
+> {
+	abstract readonly context: PromptContext<T>;
+
+	render(): PromptPiece {
+		return <>{this.props.children}</>;
+	}
+}
+
+/**
+ * Creates a context. Elements can read the value of the nearest
+ * {@link PromptContext.Provider Provider} above them with
+ * {@link PromptElement.getContext}, or with the `getContext` argument of
+ * function elements:
+ *
+ * ```tsx
+ * const WorkspaceContext = createPromptContext<Workspace | undefined>(undefined);
+ *
+ * <WorkspaceContext.Provider value={workspace}>
+ * 	<History />
+ * 	<CurrentFile />
+ * </WorkspaceContext.Provider>
+ *
+ * class CurrentFile extends PromptElement {
+ * 	render() {
+ * 		const workspace = this.getContext(WorkspaceContext);
+ * 		// ...
+ * 	}
+ * }
+ * ```
+ */
+export function createPromptContext<T>(defaultValue: T): PromptContext<T> {
+	const context: PromptContext<T> = {
+		defaultValue,
+		Provider: class Provider extends PromptContextProvider<T> {
+			get context() {
+				return context;
+			}
+		},
+	};
+
+	return context;
+}
@@ -3,10 +3,22 @@
  *--------------------------------------------------------------------------------------------*/
 
 import type { CancellationToken, Progress } from './standalone-types';
+import type { PromptContext } from './promptContext';
 import './tsx';
 import { BasePromptElementProps, PromptElementProps, PromptPiece, PromptSizing } from './types';
 import { ChatResponsePart } from './standalone-vscode-types';
 
+/**
+ * Reads contexts from the position of elements in the tree, set by the
+ * renderer when it creates them.
+ *
+ * @internal
+ */
+export const contextReaders = new WeakMap<
+	PromptElement<any, any>,
+	<T>(context: PromptContext<T>) => T
+>();
+
 /**
  * `PromptElement` represents a single element of a prompt.
  * A prompt element can be rendered by the {@link PromptRenderer} to produce {@link ChatMessage} chat messages.
@@ -40,6 +52,16 @@ export abstract class PromptElement<
 		this.props = props;
 	}
 
+	/**
+	 * Reads the value of the nearest {@link PromptContext.Provider} above this
+	 * element, or the default value of the context if there is none. It can be
+	 * called in {@link prepare} and {@link render}.
+	 */
+	protected getContext<T>(context: PromptContext<T>): T {
+		const read = contextReaders.get(this);
+		return read ? read(context) : context.defaultValue;
+	}
+
 	/**
 	 * Optionally prepare asynchronous state before the prompt element is rendered.
 	 * @param progress - Optionally report progress to the user for long-running state preparation.
@@ -19,6 +19,7 @@ import {
 	PromptSizing,
 } from './types';
 import { PromptElementJSON } from './jsonTypes';
+import { BreakOnPreset, BreakPoint, getBreakPoints } from './textBreaks';
 
 export type ChatMessagePromptElement = SystemMessage | UserMessage | AssistantMessage;
 
@@ -55,6 +56,20 @@ export class SystemMessage extends BaseChatMessage {
 	}
 }
 
+/**
+ * A {@link PromptElement} which can be rendered to an OpenAI developer chat
+ * message. Outputs without a developer role render it like a
+ * {@link SystemMessage}.
+ *
+ * See {@link https://platform.openai.com/docs/api-reference/chat/create#chat-create-messages}
+ */
+export class DeveloperMessage extends BaseChatMessage {
+	constructor(props: ChatMessageProps) {
+		props.role = Raw.ChatRole.Developer;
+		super(props);
+	}
+}
+
 /**
  * A {@link PromptElement} which can be rendered to an OpenAI user chat message.
  *
@@ -124,13 +139,42 @@ export interface TextChunkProps extends BasePromptElementProps {
 	 * last occurrence of the string or regular expression to ensure its content
 	 * fits within in token budget.
 	 *
+	 * It may also be a {@link BreakOnPreset}, such as
+	 * `breakOn={{ preset: 'paragraph' }}`, which cuts text at boundaries such as
+	 * lines, paragraphs or Markdown sections.
+	 *
 	 * {@see BasePromptElementProps} for options to control how the token budget
 	 * is allocated.
 	 */
-	breakOn?: RegExp | string;
+	breakOn?: RegExp | string | { preset: BreakOnPreset };
 
 	/** A shortcut for setting {@link breakOn} to `/\s+/g` */
 	breakOnWhitespace?: boolean;
+
+	/**
+	 * Which part of the text is dropped when it's truncated. Defaults to `end`,
+	 * which keeps the beginning of the text. `start` keeps the end, such as
+	 * the latest lines of a log, and `middle` keeps both the beginning and the
+	 * end.
+	 */
+	truncate?: 'start' | 'end' | 'middle';
+
+	/**
+	 * Text inserted where content was dropped, or a function that creates it
+	 * from the dropped text. Its tokens are counted in the budget.
+	 *
+	 * @example
+	 * ```tsx
+	 * <TextChunk
+	 *   breakOn="\n"
+	 *   truncate="middle"
+	 *   elisionMarker={omitted => `\n… ${omitted.split('\n').length} lines omitted …\n`}
+	 * >
+	 *   {fileContents}
+	 * </TextChunk>
+	 * ```
+	 */
+	elisionMarker?: string | ((omitted: string) => string);
 }
 
 /**
@@ -142,6 +186,39 @@ export interface ImageProps extends BasePromptElementProps {
 	detail?: 'low' | 'high';
 }
 
+/**
+ * @property {string} src - The source of the document. This should be a raw base64 string, or a URL.
+ * @property {string} mimeType - The mime type of the document, such as `application/pdf` or `text/plain`.
+ * @property {string} [title] - Optional. The title of the document, such as its file name.
+ */
+export interface DocumentProps extends BasePromptElementProps {
+	src: string;
+	mimeType: string;
+	title?: string;
+}
+
+/**
+ * @property {string} src - The audio data as a raw base64 string.
+ * @property {string} format - The encoding of the audio, such as `wav` or `mp3`.
+ * @property {number} [duration] - Optional. The duration of the audio in seconds, used to estimate its token usage if the tokenizer cannot measure it.
+ */
+export interface AudioProps extends BasePromptElementProps {
+	src: string;
+	format: string;
+	duration?: number;
+}
+
+/**
+ * @property {string} name - The name of the tool.
+ * @property {string} [description] - Optional. A description of what the tool does, used by the model to choose when and how to call it.
+ * @property {object} [schema] - Optional. The input the tool accepts, described as a JSON Schema object.
+ */
+export interface ToolDefinitionProps extends BasePromptElementProps {
+	name: string;
+	description?: string;
+	schema?: Record<string, unknown>;
+}
+
 /**
  * A chunk of single-line or multi-line text that is a direct child of a {@link ChatMessagePromptElement}.
  *
@@ -176,7 +253,14 @@ export class TextChunk extends PromptElement<TextChunkProps, PromptPiece> {
 			}
 		}
 
-		const text = await getTextContentBelowBudget(sizing, breakOn, fullText, token);
+		const text = await getTextContentBelowBudget(
+			sizing,
+			breakOn,
+			fullText,
+			this.props.truncate ?? 'end',
+			this.props.elisionMarker,
+			token
+		);
 		return (
 			<>
 				{intrinsics}
@@ -190,49 +274,153 @@ export class TextChunk extends PromptElement<TextChunkProps, PromptPiece> {
 	}
 }
 
+/** The number of characters kept from the start and end of truncated text. */
+interface TruncatedText {
+	head: number;
+	tail: number;
+}
+
 async function getTextContentBelowBudget(
 	sizing: PromptSizing,
-	breakOn: string | RegExp,
+	breakOn: NonNullable<TextChunkProps['breakOn']>,
 	fullText: string,
+	truncate: NonNullable<TextChunkProps['truncate']>,
+	elisionMarker: TextChunkProps['elisionMarker'],
 	cancellation: CancellationToken | undefined
 ) {
-	if (breakOn instanceof RegExp) {
-		if (!breakOn.global) {
-			throw new Error(`\`breakOn\` expression must have the global flag set (got ${breakOn})`);
-		}
+	const countTokens = (text: string) =>
+		sizing.countTokens({ type: Raw.ChatCompletionContentPartKind.Text, text }, cancellation);
 
-		breakOn.lastIndex = 0;
+	const total = await countTokens(fullText);
+	if (total <= sizing.tokenBudget) {
+		return fullText;
 	}
 
-	let outputText = '';
-	let lastIndex = -1;
-	while (lastIndex < fullText.length) {
-		let index: number;
-		if (typeof breakOn === 'string') {
-			index = fullText.indexOf(breakOn, lastIndex === -1 ? 0 : lastIndex + breakOn.length);
-		} else {
-			index = breakOn.exec(fullText)?.index ?? -1;
-		}
+	const elide = ({ head, tail }: TruncatedText) => {
+		const omitted = fullText.slice(head, fullText.length - tail);
+		const marker =
+			typeof elisionMarker === 'function' ? elisionMarker(omitted) : elisionMarker ?? '';
+		return fullText.slice(0, head) + marker + fullText.slice(fullText.length - tail);
+	};
 
-		if (index === -1) {
-			index = fullText.length;
-		}
+	const fitsBudget = async (candidate: TruncatedText) =>
+		(await countTokens(elide(candidate))) <= sizing.tokenBudget;
+
+	// Start searching near where the budget runs out given the average tokens
+	// per character, which is usually close to the answer.
+	const estimate = (fullText.length * sizing.tokenBudget) / total;
+	const truncateAt = (breaks: readonly BreakPoint[]) =>
+		findLongestFit(getTruncationCandidates(breaks, fullText, truncate), estimate, fitsBudget);
+
+	const breaks = getBreakPoints(breakOn, fullText);
+	const best = await truncateAt(breaks);
+	if (!best) {
+		return '';
+	}
 
-		const next = outputText + fullText.slice(Math.max(0, lastIndex), index);
+	// Cut at better ranked break points if that doesn't drop too much more text
+	const ranks = [...new Set(breaks.map(b => b.rank))].sort((a, b) => a - b);
+	for (const rank of ranks.slice(0, -1)) {
+		const preferred = await truncateAt(breaks.filter(b => b.rank <= rank));
 		if (
-			(await sizing.countTokens(
-				{ type: Raw.ChatCompletionContentPartKind.Text, text: next },
-				cancellation
-			)) > sizing.tokenBudget
+			preferred &&
+			preferred.head + preferred.tail >= (best.head + best.tail) * PREFERRED_BREAK_MIN_KEPT
 		) {
-			return outputText;
+			return elide(preferred);
 		}
+	}
+
+	return elide(best);
+}
+
+/**
+ * The share of the text that can be kept by cutting at any break point that
+ * must be kept when cutting at a better ranked one instead.
+ */
+const PREFERRED_BREAK_MIN_KEPT = 0.75;
 
-		outputText = next;
-		lastIndex = index;
+/**
+ * Binary searches for the candidate that keeps the most text and fits. The
+ * search starts at the last candidate that keeps at most `estimate` characters.
+ */
+async function findLongestFit(
+	candidates: readonly TruncatedText[],
+	estimate: number,
+	fitsBudget: (candidate: TruncatedText) => Promise<boolean>
+): Promise<TruncatedText | undefined> {
+	// `fits` and `overflows` are indices of measured candidates, where -1
+	// stands for the empty string and `candidates.length` for the full text.
+	let fits = -1;
+	let overflows = candidates.length;
+	let next = findLastIndex(candidates, ({ head, tail }) => head + tail <= estimate);
+
+	while (overflows - fits > 1) {
+		if (next <= fits || next >= overflows) {
+			next = Math.floor((fits + overflows) / 2);
+		}
+
+		if (await fitsBudget(candidates[next])) {
+			fits = next;
+		} else {
+			overflows = next;
+		}
+		next = -1;
 	}
 
-	return outputText;
+	return candidates[fits];
+}
+
+/**
+ * Gets the ways the text can be truncated at its break points, from keeping
+ * the least text to keeping the most.
+ */
+function getTruncationCandidates(
+	breaks: readonly BreakPoint[],
+	text: string,
+	truncate: NonNullable<TextChunkProps['truncate']>
+): TruncatedText[] {
+	const heads = breaks.map(b => b.start).sort((a, b) => a - b);
+	const tails = breaks.map(b => text.length - b.end).sort((a, b) => a - b);
+
+	const candidates: TruncatedText[] = [{ head: 0, tail: 0 }];
+	switch (truncate) {
+		case 'end':
+			for (const head of heads) {
+				candidates.push({ head, tail: 0 });
+			}
+			break;
+		case 'start':
+			for (const tail of tails) {
+				candidates.push({ head: 0, tail });
+			}
+			break;
+		case 'middle': {
+			// Keep about as much text from the end as from the start
+			let tail = 0;
+			let nextTail = 0;
+			for (const head of heads) {
+				if (head > text.length / 2) {
+					break;
+				}
+				while (nextTail < tails.length && tails[nextTail] <= head) {
+					tail = tails[nextTail++];
+				}
+				candidates.push({ head, tail });
+			}
+			break;
+		}
+	}
+
+	return candidates;
+}
+
+function findLastIndex<T>(array: readonly T[], predicate: (value: T) => boolean): number {
+	for (let i = array.length - 1; i >= 0; i--) {
+		if (predicate(array[i])) {
+			return i;
+		}
+	}
+	return -1;
 }
 
 export class Image extends PromptElement<ImageProps> {
@@ -245,6 +433,52 @@ export class Image extends PromptElement<ImageProps> {
 	}
 }
 
+/**
+ * A document attachment, such as a PDF or a text file. Outputs that cannot
+ * represent documents omit them with a warning.
+ */
+export class Document extends PromptElement<DocumentProps> {
+	constructor(props: DocumentProps) {
+		super(props);
+	}
+
+	render() {
+		return <>{this.props.children}</>;
+	}
+}
+
+/**
+ * A recorded audio clip. Outputs that cannot represent audio omit it with a
+ * warning.
+ */
+export class Audio extends PromptElement<AudioProps> {
+	constructor(props: AudioProps) {
+		super(props);
+	}
+
+	render() {
+		return <>{this.props.children}</>;
+	}
+}
+
+/**
+ * A tool the model may call. Its definition uses the prompt budget and is
+ * pruned by priority like other elements, so less useful tools can be dropped
+ * before history when space is tight. The tools that survive are returned in
+ * {@link RenderPromptResult.tools} to be sent along with the messages.
+ *
+ * Tool definitions must not be placed inside chat messages.
+ */
+export class ToolDefinition extends PromptElement<ToolDefinitionProps> {
+	constructor(props: ToolDefinitionProps) {
+		super(props);
+	}
+
+	render() {
+		return <></>;
+	}
+}
+
 export interface PrioritizedListProps extends BasePromptElementProps {
 	/**
 	 * Priority of the list element.
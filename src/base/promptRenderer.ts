@@ -11,17 +11,31 @@ import {
 	GenericMaterializedContainer,
 	LineBreakBefore,
 	MaterializedChatMessage,
+	MaterializedChatMessageAudio,
 	MaterializedChatMessageBreakpoint,
+	MaterializedChatMessageDocument,
 	MaterializedChatMessageImage,
 	MaterializedChatMessageOpaque,
 	MaterializedChatMessageTextChunk,
+	MaterializedChatMessageThinking,
+	MaterializedToolDefinition,
+	measureTextChunks,
 } from './materialized';
-import { ModeToChatMessageType, OutputMode, Raw, toMode } from './output/mode';
-import { PromptElement } from './promptElement';
+import {
+	getOutputModeTokenizer,
+	ModeToChatMessageType,
+	OutputMode,
+	Raw,
+	toMode,
+} from './output/mode';
+import { PromptContext, PromptContextProvider } from './promptContext';
+import { contextReaders, PromptElement } from './promptElement';
 import {
 	AbstractKeepWith,
 	AssistantMessage,
+	Audio,
 	BaseChatMessage,
+	Document,
 	Image,
 	ChatMessagePromptElement,
 	Chunk,
@@ -34,16 +48,25 @@ import {
 	TextChunk,
 	TokenLimit,
 	TokenLimitProps,
+	ToolDefinition,
+	ToolDefinitionProps,
 	ToolMessage,
 	useKeepWith,
 } from './promptElements';
 import { PromptMetadata, PromptReference } from './results';
-import { ITokenizer } from './tokenizer/tokenizer';
+import {
+	countAdditionalToolTokens,
+	countToolTokens,
+	ITokenizer,
+	tokenLengths,
+} from './tokenizer/tokenizer';
 import { ITracer } from './tracer';
 import {
 	BasePromptElementProps,
+	FunctionPromptElement,
 	IChatEndpointInfo,
 	PromptElementCtor,
+	PromptElementType,
 	PromptPiece,
 	PromptPieceChild,
 	PromptSizing,
@@ -51,7 +74,7 @@ import {
 import { URI } from './util/vs/common/uri';
 import { ChatDocumentContext, ChatResponsePart } from './standalone-vscode-types';
 
-export interface RenderPromptResult<M extends OutputMode = OutputMode.Raw> {
+export interface RenderPromptResult<M extends keyof ModeToChatMessageType = OutputMode.Raw> {
 	readonly messages: ModeToChatMessageType[M][];
 	readonly tokenCount: number;
 	readonly hasIgnoredFiles: boolean;
@@ -65,10 +88,58 @@ export interface RenderPromptResult<M extends OutputMode = OutputMode.Raw> {
 	 * The references attached to chat message chunks that did not survive prioritization.
 	 */
 	readonly omittedReferences: PromptReference[];
+
+	/**
+	 * The tools from {@link ToolDefinition} elements that survived prioritization.
+	 */
+	readonly tools: Raw.ToolDefinition[];
 }
 
+/**
+ * Progress of a render, yielded by {@link PromptRenderer.renderStream}.
+ */
+export type PromptRenderEvent<M extends keyof ModeToChatMessageType = OutputMode.Raw> =
+	| {
+			/** A group of sibling elements with the same `flexGrow` started rendering. */
+			type: 'flexGroupStart';
+			/** ID of the element whose children are rendered. */
+			parentId: number | undefined;
+			flexGrow: number | undefined;
+			/** Budget shared by the elements in the group. */
+			tokenBudget: number;
+			elements: { id: number; name: string; tokenBudget: number }[];
+	  }
+	| {
+			/** An element finished its {@link PromptElement.prepare prepare} step. */
+			type: 'elementPrepared';
+			id: number;
+			name: string;
+	  }
+	| {
+			/** An element was rendered. Its children are rendered next. */
+			type: 'elementRendered';
+			id: number;
+			name: string;
+	  }
+	| {
+			/** Elements were removed to fit a token limit. */
+			type: 'pruneRound';
+			/** ID of the element the limit applies to. */
+			id: number;
+			tokenLimit: number;
+			/** Tokens used after this round, which may still exceed the limit. */
+			tokenCount: number;
+			/** Total number of elements removed so far. */
+			removed: number;
+	  }
+	| {
+			/** The render finished. This is the last event. */
+			type: 'result';
+			result: RenderPromptResult<M>;
+	  };
+
 export type QueueItem<C, P> = {
-	path: (PromptElementCtor<any, any> | string)[];
+	path: (PromptElementType<any, any> | string)[];
 	node: PromptTreeElement;
 	ctor: C;
 	props: P;
@@ -99,26 +170,38 @@ export namespace MetadataMap {
  *
  * Note: You must create a fresh prompt renderer instance for each prompt element you want to render.
  */
-export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMode> {
+export class PromptRenderer<
+	P extends BasePromptElementProps,
+	M extends keyof ModeToChatMessageType
+> {
 	private readonly _usedContext: ChatDocumentContext[] = [];
 	private readonly _ignoredFiles: URI[] = [];
 	private readonly _growables: { initialConsume: number; elem: PromptTreeElement }[] = [];
 	private readonly _root = new PromptTreeElement(null, 0);
 	private readonly _tokenLimits: { limit: number; id: number }[] = [];
+	private _hasToolDefinitions = false;
+	private readonly _tokenizer: ITokenizer<M>;
 	/** Epoch used to tracing the order in which elements render. */
 	public tracer: ITracer | undefined = undefined;
 
+	/** Receives progress while {@link renderStream} is iterated. */
+	private _onEvent: ((event: PromptRenderEvent<M>) => void) | undefined;
+
 	/**
 	 * @param _endpoint The chat endpoint that the rendered prompt will be sent to.
 	 * @param _ctor The prompt element constructor to render.
 	 * @param _props The props to pass to the prompt element.
+	 * @param tokenizer The tokenizer to measure the prompt with, or an output
+	 * mode added with {@link registerOutputMode} to use its tokenizer.
 	 */
 	constructor(
 		private readonly _endpoint: IChatEndpointInfo,
-		private readonly _ctor: PromptElementCtor<P, any>,
+		private readonly _ctor: PromptElementType<P, any>,
 		private readonly _props: P,
-		private readonly _tokenizer: ITokenizer<M>
-	) {}
+		tokenizer: ITokenizer<M> | M
+	) {
+		this._tokenizer = typeof tokenizer === 'number' ? getOutputModeTokenizer(tokenizer) : tokenizer;
+	}
 
 	public getIgnoredFiles(): URI[] {
 		return Array.from(new Set(this._ignoredFiles));
@@ -134,7 +217,7 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 
 	private async _processPromptPieces(
 		sizing: PromptSizingContext,
-		pieces: QueueItem<PromptElementCtor<P, any>, P>[],
+		pieces: QueueItem<PromptElementType<P, any>, P>[],
 		progress?: Progress<ChatResponsePart>,
 		token?: CancellationToken
 	) {
@@ -148,22 +231,24 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 				tokenLimit: number | undefined;
 			}[]
 		>();
-		for (const [i, element] of pieces.entries()) {
+		for (const [i, piece] of pieces.entries()) {
 			// Set any jsx children as the props.children
-			if (Array.isArray(element.children)) {
-				element.props = element.props ?? {};
-				(element.props as any).children = element.children; // todo@joyceerhl clean up any
+			if (Array.isArray(piece.children)) {
+				piece.props = piece.props ?? {};
+				(piece.props as any).children = piece.children; // todo@joyceerhl clean up any
 			}
 
 			// Instantiate the prompt part
-			if (!element.ctor) {
-				const loc = atPath(element.path);
+			if (!piece.ctor) {
+				const loc = atPath(piece.path);
 				throw new Error(
 					`Invalid ChatMessage child! Child must be a TSX component that extends PromptElement at ${loc}`
 				);
 			}
 
+			const element = { ...piece, ctor: toPromptElementClass(piece.ctor) };
 			const promptElement = this.createElement(element);
+			contextReaders.set(promptElement, context => element.node.readContext(context));
 			let tokenLimit: number | undefined;
 			if (promptElement instanceof TokenLimit) {
 				tokenLimit = (element.props as unknown as TokenLimitProps).max;
@@ -273,21 +358,44 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 				})),
 			});
 
+			this._onEvent?.({
+				type: 'flexGroupStart',
+				parentId: promptElements[0].element.node.parent?.id,
+				flexGrow: promptElements[0].element.props.flexGrow,
+				tokenBudget: sizing.remainingTokenBudget,
+				elements: promptElements.map((e, i) => ({
+					id: e.element.node.id,
+					name: elementName(e.element.ctor),
+					tokenBudget: elementSizings[i].tokenBudget,
+				})),
+			});
+
 			await Promise.all(
 				promptElements.map(async ({ element, promptElementInstance }, i) => {
 					const state = await annotateError(element, () =>
 						promptElementInstance.prepare?.(elementSizings[i], progress, token)
 					);
 					element.node.setState(state);
+					this._onEvent?.({
+						type: 'elementPrepared',
+						id: element.node.id,
+						name: elementName(element.ctor),
+					});
 				})
 			);
 
 			const templates = await Promise.all(
 				promptElements.map(async ({ element, promptElementInstance }, i) => {
 					const elementSizing = elementSizings[i];
-					return await annotateError(element, () =>
+					const template = await annotateError(element, () =>
 						promptElementInstance.render(element.node.getState(), elementSizing, progress, token)
 					);
+					this._onEvent?.({
+						type: 'elementRendered',
+						id: element.node.id,
+						name: elementName(element.ctor),
+					});
+					return template;
 				})
 			);
 
@@ -331,13 +439,21 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 	) {
 		const pieces = flattenAndReduce(template);
 
+		// Tokens shared by all tool definitions are charged to the first one
+		const isFirstToolDefinition =
+			promptElementInstance instanceof ToolDefinition && !this._hasToolDefinitions;
+		if (isFirstToolDefinition) {
+			this._hasToolDefinitions = true;
+		}
+
 		// Compute token budget for the pieces that this child wants to render
 		const childSizing = new PromptSizingContext(elementSizing.tokenBudget, this._endpoint);
 		const { tokensConsumed } = await computeTokensConsumedByLiterals(
 			this._tokenizer,
 			element,
 			promptElementInstance,
-			pieces
+			pieces,
+			isFirstToolDefinition
 		);
 		childSizing.consume(tokensConsumed);
 		await this._handlePromptChildren(element, pieces, childSizing, progress, token);
@@ -386,6 +502,57 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 		return { ...result, messages: toMode(this._tokenizer.mode, result.messages) };
 	}
 
+	/**
+	 * Renders the prompt element and its children like {@link render}, yielding
+	 * events as the tree is processed so that progress can be shown for slow
+	 * renders. The last event contains the result.
+	 *
+	 * Stopping the iteration early does not stop the render. Use the
+	 * cancellation token for that.
+	 */
+	public async *renderStream(
+		progress?: Progress<ChatResponsePart>,
+		token?: CancellationToken
+	): AsyncGenerator<PromptRenderEvent<M>, void, undefined> {
+		const events: PromptRenderEvent<M>[] = [];
+		let wake: (() => void) | undefined;
+		let done = false;
+		let error: { value: unknown } | undefined;
+
+		this._onEvent = event => {
+			events.push(event);
+			wake?.();
+		};
+
+		this.render(progress, token)
+			.then(
+				result => this._onEvent?.({ type: 'result', result }),
+				value => (error = { value })
+			)
+			.finally(() => {
+				done = true;
+				this._onEvent = undefined;
+				wake?.();
+			});
+
+		try {
+			while (true) {
+				if (events.length) {
+					yield events.shift()!;
+				} else if (error) {
+					throw error.value;
+				} else if (done) {
+					return;
+				} else {
+					await new Promise<void>(resolve => (wake = resolve));
+					wake = undefined;
+				}
+			}
+		} finally {
+			this._onEvent = undefined;
+		}
+	}
+
 	/**
 	 * Renders the prompt element and its children. Similar to {@link render}, but
 	 * returns the original message representation.
@@ -394,9 +561,13 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 		progress?: Progress<ChatResponsePart>,
 		token?: CancellationToken
 	): Promise<RenderPromptResult<OutputMode.Raw>> {
+		// Reserve the tokens the prompt uses outside of its messages
+		const promptOverhead = (await this._tokenizer.countPromptOverhead?.(token)) ?? 0;
+		const budget = this._endpoint.modelMaxPromptTokens - promptOverhead;
+
 		// Convert root prompt element to prompt pieces
 		await this._processPromptPieces(
-			new PromptSizingContext(this._endpoint.modelMaxPromptTokens, this._endpoint),
+			new PromptSizingContext(budget, this._endpoint),
 			[
 				{
 					node: this._root,
@@ -410,13 +581,10 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 			token
 		);
 
-		const { container, allMetadata, removed } = await this._getFinalElementTree(
-			this._endpoint.modelMaxPromptTokens,
-			token
-		);
+		const { container, allMetadata, removed } = await this._getFinalElementTree(budget, token);
 		this.tracer?.didMaterializeTree?.({
-			budget: this._endpoint.modelMaxPromptTokens,
-			renderedTree: { container, removed, budget: this._endpoint.modelMaxPromptTokens },
+			budget,
+			renderedTree: { container, removed, budget },
 			tokenizer: this._tokenizer,
 			renderTree: budget =>
 				this._getFinalElementTree(budget, undefined).then(r => ({ ...r, budget })),
@@ -424,7 +592,7 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 
 		// Then finalize the chat messages
 		const messageResult = [...container.toChatMessages()];
-		const tokenCount = await container.tokenCount(this._tokenizer);
+		const tokenCount = promptOverhead + (await container.tokenCount(this._tokenizer));
 		const remainingMetadata = [...container.allMetadata()];
 
 		// Remove undefined and duplicate references
@@ -471,6 +639,7 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 			tokenCount,
 			references,
 			omittedReferences,
+			tools: [...container.toolDefinitions()],
 		};
 	}
 
@@ -519,6 +688,7 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 			try {
 				let tokenCount = await container.tokenCount(this._tokenizer);
 				while (tokenCount > limit.limit) {
+					await measureTextChunks(container, this._tokenizer);
 					const overhead = await container.baseMessageTokenCount(this._tokenizer);
 					do {
 						for (const node of container.removeLowestPriorityChild()) {
@@ -529,6 +699,13 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 						}
 					} while (tokenCount - overhead > limit.limit);
 					tokenCount = await container.tokenCount(this._tokenizer);
+					this._onEvent?.({
+						type: 'pruneRound',
+						id: limit.id,
+						tokenLimit: limit.limit,
+						tokenCount,
+						removed,
+					});
 				}
 			} catch (e) {
 				if (e instanceof BudgetExceededError) {
@@ -563,7 +740,7 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 				throw new Error('unreachable: expected growable');
 			}
 
-			const tempRoot = new PromptTreeElement(null, 0, growable.elem.id);
+			const tempRoot = new PromptTreeElement(growable.elem.parent, 0, growable.elem.id);
 			// Sizing for the grow is the remaining excess plus the initial consumption,
 			// since the element consuming the initial amount of tokens will be replaced
 			const sizing = new PromptSizingContext(
@@ -573,7 +750,13 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 
 			const newConsumed = await this._processPromptRenderPiece(
 				sizing,
-				{ node: tempRoot, ctor: this._ctor, props: {}, children: [], path: [this._ctor] },
+				{
+					node: tempRoot,
+					ctor: toPromptElementClass(this._ctor),
+					props: {},
+					children: [],
+					path: [this._ctor],
+				},
 				obj,
 				await obj.render(undefined, {
 					tokenBudget: sizing.tokenBudget,
@@ -618,7 +801,7 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 			return;
 		}
 
-		let todo: QueueItem<PromptElementCtor<P, any>, P>[] = [];
+		let todo: QueueItem<PromptElementType<P, any>, P>[] = [];
 		for (const piece of pieces) {
 			if (piece.kind === 'literal') {
 				element.node.appendStringChild(
@@ -678,6 +861,8 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 				return this._handleIntrinsicCacheBreakpoint(node, props, children, sortIndex);
 			case 'opaque':
 				return this._handleIntrinsicOpaque(node, props, sortIndex);
+			case 'thinking':
+				return this._handleIntrinsicThinking(node, props, children, sortIndex);
 		}
 		throw new Error(`Unknown intrinsic element ${name}!`);
 	}
@@ -732,6 +917,28 @@ export class PromptRenderer<P extends BasePromptElementProps, M extends OutputMo
 		node.appendOpaque(props.value, props.tokenUsage, props.priority, sortIndex);
 	}
 
+	private _handleIntrinsicThinking(
+		node: PromptTreeElement,
+		props: JSX.IntrinsicElements['thinking'],
+		children: ProcessedPromptPiece[],
+		sortIndex?: number
+	) {
+		if (children.length > 0) {
+			throw new Error(`<thinking /> must not have children!`);
+		}
+
+		node.appendThinking(
+			{
+				type: Raw.ChatCompletionContentPartKind.Thinking,
+				text: props.text,
+				...(props.signature ? { signature: props.signature } : {}),
+				...(props.id ? { id: props.id } : {}),
+			},
+			props.priority,
+			sortIndex
+		);
+	}
+
 	private _handleIntrinsicElementJSON(node: PromptTreeElement, data: JSONT.PromptElementJSON) {
 		const appended = node.appendPieceJSON(data.node);
 		if (this.tracer?.includeInEpoch) {
@@ -837,7 +1044,8 @@ async function computeTokensConsumedByLiterals(
 	tokenizer: ITokenizer,
 	element: QueueItem<PromptElementCtor<any, any>, any>,
 	instance: PromptElement<any, any>,
-	pieces: ProcessedPromptPiece[]
+	pieces: ProcessedPromptPiece[],
+	isFirstToolDefinition: boolean
 ) {
 	let tokensConsumed = 0;
 
@@ -851,15 +1059,20 @@ async function computeTokensConsumedByLiterals(
 		};
 
 		tokensConsumed += await tokenizer.countMessageTokens(toMode(tokenizer.mode, raw));
+	} else if (instance instanceof ToolDefinition) {
+		const tool = toRawToolDefinition(element.props);
+		tokensConsumed += await (isFirstToolDefinition
+			? countToolTokens(tokenizer, [tool])
+			: countAdditionalToolTokens(tokenizer, tool));
 	}
 
-	for (const piece of pieces) {
-		if (piece.kind === 'literal') {
-			tokensConsumed += await tokenizer.tokenLength({
-				type: Raw.ChatCompletionContentPartKind.Text,
-				text: piece.value,
-			});
-		}
+	const literals = pieces.flatMap((piece): Raw.ChatCompletionContentPart[] =>
+		piece.kind === 'literal'
+			? [{ type: Raw.ChatCompletionContentPartKind.Text, text: piece.value }]
+			: []
+	);
+	for (const length of await tokenLengths(tokenizer, literals)) {
+		tokensConsumed += length;
 	}
 
 	return { tokensConsumed };
@@ -914,7 +1127,7 @@ class ExtrinsicPromptPiece<P extends BasePromptElementProps = any, S = any> {
 	public readonly kind = 'extrinsic';
 
 	constructor(
-		public readonly ctor: PromptElementCtor<P, S>,
+		public readonly ctor: PromptElementType<P, S>,
 		public readonly props: P,
 		public readonly children: PromptPieceChild[]
 	) {}
@@ -931,7 +1144,12 @@ type ProcessedPromptPiece =
 	| IntrinsicPromptPiece<any>
 	| ExtrinsicPromptPiece<any, any>;
 
-type PromptNode = PromptTreeElement | PromptText | PromptCacheBreakpoint | PromptOpaque;
+type PromptNode =
+	| PromptTreeElement
+	| PromptText
+	| PromptCacheBreakpoint
+	| PromptOpaque
+	| PromptThinking;
 
 class PromptOpaque {
 	public static fromJSON(
@@ -1045,6 +1263,12 @@ class PromptTreeElement {
 			case JSONT.PieceCtorKind.ImageChatMessage:
 				element._obj = new Image(json.props!);
 				break;
+			case JSONT.PieceCtorKind.DocumentChatMessage:
+				element._obj = new Document(json.props!);
+				break;
+			case JSONT.PieceCtorKind.AudioChatMessage:
+				element._obj = new Audio(json.props!);
+				break;
 			default:
 				softAssertNever(json);
 		}
@@ -1079,6 +1303,20 @@ class PromptTreeElement {
 		if (this._obj.props.passPriority) this._objFlags |= ContainerFlags.PassPriority;
 	}
 
+	/**
+	 * Gets the value of the context from the nearest provider above this
+	 * element, or its default value.
+	 */
+	public readContext<T>(context: PromptContext<T>): T {
+		for (let node = this.parent; node; node = node.parent) {
+			if (node._obj instanceof PromptContextProvider && node._obj.context === context) {
+				return node._obj.props.value;
+			}
+		}
+
+		return context.defaultValue;
+	}
+
 	/** @deprecated remove when Expandable is gone */
 	public getObj(): PromptElement | null {
 		return this._obj;
@@ -1127,6 +1365,14 @@ class PromptTreeElement {
 		this._children.push(new PromptOpaque(this, sortIndex, value, tokenUsage, priority));
 	}
 
+	public appendThinking(
+		part: Raw.ChatCompletionContentPartThinking,
+		priority?: number,
+		sortIndex = this._children.length
+	): void {
+		this._children.push(new PromptThinking(part, sortIndex, priority));
+	}
+
 	public toJSON(): JSONT.PieceJSON {
 		const json: JSONT.PieceJSON = {
 			type: JSONT.PromptNodeType.Piece,
@@ -1162,6 +1408,24 @@ class PromptTreeElement {
 					...pickProps(this._obj.props, ['src', 'detail']),
 				},
 			};
+		} else if (this._obj instanceof Document) {
+			return {
+				...json,
+				ctor: JSONT.PieceCtorKind.DocumentChatMessage,
+				props: {
+					...json.props,
+					...pickProps(this._obj.props, ['src', 'mimeType', 'title']),
+				},
+			};
+		} else if (this._obj instanceof Audio) {
+			return {
+				...json,
+				ctor: JSONT.PieceCtorKind.AudioChatMessage,
+				props: {
+					...json.props,
+					...pickProps(this._obj.props, ['src', 'format', 'duration']),
+				},
+			};
 		} else if (this._obj instanceof AbstractKeepWith) {
 			json.keepWithId = this._obj.id;
 		}
@@ -1175,7 +1439,13 @@ class PromptTreeElement {
 
 	public materialize(
 		parent?: MaterializedChatMessage | GenericMaterializedContainer
-	): MaterializedChatMessage | GenericMaterializedContainer | MaterializedChatMessageImage {
+	):
+		| MaterializedChatMessage
+		| GenericMaterializedContainer
+		| MaterializedChatMessageImage
+		| MaterializedChatMessageDocument
+		| MaterializedChatMessageAudio
+		| MaterializedToolDefinition {
 		this._children.sort((a, b) => a.childIndex - b.childIndex);
 
 		if (this._obj instanceof Image) {
@@ -1191,6 +1461,48 @@ class PromptTreeElement {
 			);
 		}
 
+		if (this._obj instanceof Document) {
+			const { src, mimeType, title } = this._obj.props;
+			return new MaterializedChatMessageDocument(
+				parent,
+				this.id,
+				{
+					type: Raw.ChatCompletionContentPartKind.Document,
+					document: {
+						url: /^(https?|data):/.test(src) ? src : `data:${mimeType};base64,${src}`,
+						mimeType,
+						...(title ? { title } : {}),
+					},
+				},
+				this._obj.props.priority ?? Number.MAX_SAFE_INTEGER,
+				this._metadata
+			);
+		}
+
+		if (this._obj instanceof Audio) {
+			const { src, format, duration } = this._obj.props;
+			return new MaterializedChatMessageAudio(
+				parent,
+				this.id,
+				{
+					type: Raw.ChatCompletionContentPartKind.Audio,
+					audio: { data: src, format, ...(duration !== undefined ? { duration } : {}) },
+				},
+				this._obj.props.priority ?? Number.MAX_SAFE_INTEGER,
+				this._metadata
+			);
+		}
+
+		if (this._obj instanceof ToolDefinition) {
+			return new MaterializedToolDefinition(
+				parent,
+				this.id,
+				toRawToolDefinition(this._obj.props),
+				this._obj.props.priority ?? Number.MAX_SAFE_INTEGER,
+				this._metadata
+			);
+		}
+
 		if (this._obj instanceof BaseChatMessage) {
 			if (this._obj.props.role === undefined || typeof this._obj.props.role !== 'number') {
 				throw new Error(`Invalid ChatMessage!`);
@@ -1268,6 +1580,22 @@ class PromptCacheBreakpoint {
 	}
 }
 
+class PromptThinking {
+	constructor(
+		public readonly part: Raw.ChatCompletionContentPartThinking,
+		public readonly childIndex: number,
+		public readonly priority?: number
+	) {}
+
+	public toJSON() {
+		return undefined;
+	}
+
+	public materialize(parent: MaterializedChatMessage | GenericMaterializedContainer) {
+		return new MaterializedChatMessageThinking(parent, this.part, this.priority);
+	}
+}
+
 class PromptText {
 	public static fromJSON(
 		parent: PromptTreeElement,
@@ -1323,8 +1651,65 @@ class PromptText {
 	}
 }
 
+function toRawToolDefinition({
+	name,
+	description,
+	schema,
+}: ToolDefinitionProps): Raw.ToolDefinition {
+	return {
+		name,
+		...(description ? { description } : {}),
+		...(schema ? { parameters: schema } : {}),
+	};
+}
+
 function isFragmentCtor(template: PromptPiece): boolean {
-	return (typeof template.ctor === 'function' && template.ctor.isFragment) ?? false;
+	return (
+		typeof template.ctor === 'function' &&
+		'isFragment' in template.ctor &&
+		!!template.ctor.isFragment
+	);
+}
+
+const functionElementClasses = new WeakMap<
+	FunctionPromptElement<any>,
+	PromptElementCtor<any, void>
+>();
+
+/**
+ * Gets the class of a prompt element. Function elements are wrapped in a
+ * class with the same name, which is reused each time they're rendered.
+ */
+function toPromptElementClass<P extends BasePromptElementProps>(
+	ctor: PromptElementType<P, any>
+): PromptElementCtor<P, any> {
+	if (isPromptElementClass(ctor)) {
+		return ctor;
+	}
+
+	const fn = ctor as FunctionPromptElement<P>;
+	let cls = functionElementClasses.get(fn);
+	if (!cls) {
+		cls = class extends PromptElement<P> {
+			render(_state: void, sizing: PromptSizing) {
+				return fn(this.props, sizing, context => this.getContext(context));
+			}
+		};
+		Object.defineProperty(cls, 'name', { value: fn.name });
+		functionElementClasses.set(fn, cls);
+	}
+
+	return cls;
+}
+
+function isPromptElementClass<P extends BasePromptElementProps>(
+	ctor: PromptElementType<P, any>
+): ctor is PromptElementCtor<P, any> {
+	return (
+		ctor.prototype instanceof PromptElement ||
+		// Elements that implement PromptElement without extending it
+		typeof ctor.prototype?.render === 'function'
+	);
 }
 
 function softAssertNever(x: never): void {
@@ -1366,10 +1751,12 @@ function pickProps<T extends {}, K extends keyof T>(obj: T, keys: readonly K[]):
 	return result;
 }
 
-function atPath(path: (PromptElementCtor<any, any> | string)[]): string {
-	return path
-		.map(p => (typeof p === 'string' ? p : p ? p.name || '<anonymous>' : String(p)))
-		.join(' > ');
+function atPath(path: (PromptElementType<any, any> | string)[]): string {
+	return path.map(elementName).join(' > ');
+}
+
+function elementName(ctor: PromptElementType<any, any> | string): string {
+	return typeof ctor === 'string' ? ctor : ctor ? ctor.name || '<anonymous>' : String(ctor);
 }
 
 const annotatedErrors = new WeakSet<Error>();
@@ -441,16 +441,125 @@ export interface LanguageModelChatMessage {
 	role: LanguageModelChatMessageRole;
 
 	/**
-	 * The content of the message.
+	 * The text content of the message. For tool results, this is the text of
+	 * the result.
 	 */
 	content: string;
 
+	/**
+	 * The structured content of the message. This is only set when the
+	 * message carries more than text, such as images, tool calls, or a tool
+	 * result, and takes precedence over {@link content} when present.
+	 */
+	parts?: LanguageModelChatMessagePart[];
+
 	/**
 	 * Optional name of the message sender.
 	 */
 	name?: string;
 }
 
+/**
+ * A content part of a {@link LanguageModelChatMessage}.
+ */
+export type LanguageModelChatMessagePart =
+	| LanguageModelTextPart
+	| LanguageModelImagePart
+	| LanguageModelToolCallPart
+	| LanguageModelToolResultPart;
+
+/**
+ * A language model response part containing a piece of text.
+ */
+export class LanguageModelTextPart {
+	/**
+	 * The text content of the part.
+	 */
+	value: string;
+
+	/**
+	 * Construct a text part with the given content.
+	 */
+	constructor(value: string) {
+		this.value = value;
+	}
+}
+
+/**
+ * A part containing an image, given as a URL or a base64 data URL.
+ */
+export class LanguageModelImagePart {
+	/**
+	 * The URL of the image.
+	 */
+	url: string;
+
+	/**
+	 * The detail level the image should be processed at.
+	 */
+	detail?: 'low' | 'high';
+
+	/**
+	 * Construct an image part.
+	 */
+	constructor(url: string, detail?: 'low' | 'high') {
+		this.url = url;
+		this.detail = detail;
+	}
+}
+
+/**
+ * A language model response part indicating a tool call.
+ */
+export class LanguageModelToolCallPart {
+	/**
+	 * The ID of the tool call.
+	 */
+	callId: string;
+
+	/**
+	 * The name of the tool to call.
+	 */
+	name: string;
+
+	/**
+	 * The parameters with which to call the tool.
+	 */
+	parameters: object;
+
+	/**
+	 * Create a new tool call part.
+	 */
+	constructor(callId: string, name: string, parameters: object) {
+		this.callId = callId;
+		this.name = name;
+		this.parameters = parameters;
+	}
+}
+
+/**
+ * The result of a tool call, sent in a user message.
+ */
+export class LanguageModelToolResultPart {
+	/**
+	 * The ID of the tool call this is a result for.
+	 */
+	callId: string;
+
+	/**
+	 * The content of the tool result.
+	 */
+	content: (LanguageModelTextPart | LanguageModelImagePart)[];
+
+	/**
+	 * Create a tool result part.
+	 */
+	constructor(callId: string, content: (LanguageModelTextPart | LanguageModelImagePart)[]) {
+		this.callId = callId;
+		this.content = content;
+	}
+}
+
 /**
  * Simple language model interface for tokenization
  */
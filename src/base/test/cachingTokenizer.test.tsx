@@ -0,0 +1,187 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { ChatTemplate, OutputMode, Raw } from '../output/mode';
+import { PromptElement } from '../promptElement';
+import { SystemMessage, UserMessage } from '../promptElements';
+import { PromptRenderer } from '../promptRenderer';
+import { CachingTokenizer, TokenLengthCache } from '../tokenizer/cachingTokenizer';
+import { ChatTemplateTokenizer } from '../tokenizer/chatTemplateTokenizer';
+import { Cl100KBaseTokenizer } from '../tokenizer/cl100kBaseTokenizer';
+import { ITokenizer } from '../tokenizer/tokenizer';
+
+suite('CachingTokenizer', () => {
+	let measured: string[];
+	let tokenizer: ITokenizer<OutputMode.Raw>;
+
+	setup(() => {
+		measured = [];
+		tokenizer = {
+			mode: OutputMode.Raw,
+			tokenLength: part => {
+				const text = part.type === Raw.ChatCompletionContentPartKind.Text ? part.text : 'media';
+				measured.push(text);
+				return text.length;
+			},
+			countMessageTokens: message => message.content.length,
+		};
+	});
+
+	const text = (text: string): Raw.ChatCompletionContentPart => ({
+		type: Raw.ChatCompletionContentPartKind.Text,
+		text,
+	});
+
+	test('caches text by its content', () => {
+		const caching = new CachingTokenizer(tokenizer);
+		assert.strictEqual(caching.tokenLength(text('hello')), 5);
+		assert.strictEqual(caching.tokenLength(text('hello')), 5);
+		assert.strictEqual(caching.tokenLength(text('world!')), 6);
+		assert.deepStrictEqual(measured, ['hello', 'world!']);
+	});
+
+	test('caches other parts by their content', () => {
+		const caching = new CachingTokenizer(tokenizer);
+		const image = (url: string): Raw.ChatCompletionContentPart => ({
+			type: Raw.ChatCompletionContentPartKind.Image,
+			imageUrl: { url },
+		});
+		caching.tokenLength(image('https://example.com/a.png'));
+		caching.tokenLength(image('https://example.com/a.png'));
+		caching.tokenLength(image('https://example.com/b.png'));
+		caching.tokenLength(text('https://example.com/a.png'));
+		assert.deepStrictEqual(measured, ['media', 'media', 'https://example.com/a.png']);
+	});
+
+	test('evicts the least recently used text', () => {
+		const caching = new CachingTokenizer(tokenizer, { maxSize: 2 });
+		caching.tokenLength(text('a'));
+		caching.tokenLength(text('b'));
+		caching.tokenLength(text('a'));
+		caching.tokenLength(text('c')); // evicts 'b'
+		caching.tokenLength(text('a'));
+		caching.tokenLength(text('b'));
+		assert.deepStrictEqual(measured, ['a', 'b', 'c', 'b']);
+		assert.strictEqual(caching.cache.size, 2);
+	});
+
+	test('measures concurrent requests once', async () => {
+		let calls = 0;
+		const caching = new CachingTokenizer({
+			...tokenizer,
+			tokenLength: async () => {
+				calls++;
+				return 42;
+			},
+		});
+
+		const lengths = await Promise.all([
+			caching.tokenLength(text('a')),
+			caching.tokenLength(text('a')),
+		]);
+		assert.deepStrictEqual(lengths, [42, 42]);
+		assert.strictEqual(caching.tokenLength(text('a')), 42);
+		assert.strictEqual(calls, 1);
+	});
+
+	test('forgets failed requests', async () => {
+		let fail = true;
+		const caching = new CachingTokenizer({
+			...tokenizer,
+			tokenLength: async () => {
+				if (fail) {
+					throw new Error('cancelled');
+				}
+				return 1;
+			},
+		});
+
+		await assert.rejects(Promise.resolve(caching.tokenLength(text('a'))), /cancelled/);
+		fail = false;
+		assert.strictEqual(await caching.tokenLength(text('a')), 1);
+	});
+
+	test('shares a cache between instances and renders', async () => {
+		class Prompt extends PromptElement {
+			render() {
+				return (
+					<>
+						<SystemMessage>You are a helpful assistant.</SystemMessage>
+						<UserMessage>Explain this file.</UserMessage>
+					</>
+				);
+			}
+		}
+
+		const cache = new TokenLengthCache();
+		const render = () =>
+			new PromptRenderer(
+				{ modelMaxPromptTokens: 1000 } as any,
+				Prompt,
+				{},
+				new CachingTokenizer(tokenizer, { cache })
+			).render();
+
+		const first = await render();
+		const measuredFirst = measured.length;
+		const second = await render();
+		assert.deepStrictEqual(second.messages, first.messages);
+		assert.strictEqual(second.tokenCount, first.tokenCount);
+		assert.strictEqual(measured.length, measuredFirst);
+	});
+
+	test('measures uncached parts in one batch', async () => {
+		const batches: string[][] = [];
+		const caching = new CachingTokenizer({
+			...tokenizer,
+			tokenLengthBatch: async parts => {
+				const texts = parts.map(part =>
+					part.type === Raw.ChatCompletionContentPartKind.Text ? part.text : 'media'
+				);
+				batches.push(texts);
+				return texts.map(text => text.length);
+			},
+		});
+
+		caching.tokenLength(text('a'));
+		assert.deepStrictEqual(
+			await caching.tokenLengthBatch?.([text('a'), text('bb'), text('ccc'), text('bb')]),
+			[1, 2, 3, 2]
+		);
+		assert.deepStrictEqual(batches, [['bb', 'ccc']]);
+		assert.strictEqual(caching.tokenLength(text('ccc')), 3);
+		assert.strictEqual(new CachingTokenizer(tokenizer).tokenLengthBatch, undefined);
+	});
+
+	test('forwards tool counting if the tokenizer supports it', () => {
+		assert.strictEqual(new CachingTokenizer(tokenizer).countToolTokens, undefined);
+		const caching = new CachingTokenizer({ ...tokenizer, countToolTokens: tools => tools.length });
+		assert.strictEqual(caching.countToolTokens?.([{ name: 'a' }, { name: 'b' }]), 2);
+	});
+
+	test('forwards the prompt overhead if the tokenizer has one', async () => {
+		assert.strictEqual(new CachingTokenizer(tokenizer).countPromptOverhead, undefined);
+
+		class Prompt extends PromptElement {
+			render() {
+				return (
+					<>
+						<SystemMessage>You are a helpful assistant.</SystemMessage>
+						<UserMessage>Explain this file.</UserMessage>
+					</>
+				);
+			}
+		}
+
+		const template = new ChatTemplateTokenizer(ChatTemplate.Llama3, new Cl100KBaseTokenizer());
+		const render = (tokenizer: ITokenizer) =>
+			new PromptRenderer({ modelMaxPromptTokens: 1000 } as any, Prompt, {}, tokenizer).renderRaw();
+
+		const wrapped = await render(new CachingTokenizer(template));
+		const unwrapped = await render(template);
+		assert.ok(unwrapped.tokenCount > 0);
+		assert.strictEqual(wrapped.tokenCount, unwrapped.tokenCount);
+	});
+});
@@ -0,0 +1,103 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { OpenAI, Raw } from '../output/mode';
+import { Cl100KBaseTokenizer } from '../tokenizer/cl100kBaseTokenizer';
+
+suite('Cl100KBaseTokenizer', () => {
+	const tokenizer = new Cl100KBaseTokenizer();
+
+	/** Counts a request the way the API reports its prompt tokens. */
+	const countPrompt = (messages: OpenAI.ChatMessage[], tools: Raw.ToolDefinition[] = []) =>
+		messages.reduce((sum, message) => sum + tokenizer.countMessageTokens(message), 0) +
+		tokenizer.countToolTokens(tools) +
+		OpenAI.BaseTokensPerCompletion;
+
+	// Reference counts below are the prompt tokens reported by the API for `gpt-4`
+
+	test('counts messages', () => {
+		assert.strictEqual(countPrompt([{ role: OpenAI.ChatRole.User, content: 'hello' }]), 8);
+		assert.strictEqual(
+			countPrompt([
+				{ role: OpenAI.ChatRole.System, content: "# Important: you're the best robot" },
+				{ role: OpenAI.ChatRole.User, content: 'hello robot' },
+				{ role: OpenAI.ChatRole.Assistant, content: 'hello world' },
+			]),
+			27
+		);
+	});
+
+	test('counts tool definitions', () => {
+		const messages: OpenAI.ChatMessage[] = [
+			{
+				role: OpenAI.ChatRole.System,
+				content: 'You are a helpful assistant that can answer to questions about the weather.',
+			},
+			{ role: OpenAI.ChatRole.User, content: "What's the weather like in San Francisco?" },
+		];
+		const tools: Raw.ToolDefinition[] = [
+			{
+				name: 'get_current_weather',
+				description: 'Get the current weather in a given location',
+				parameters: {
+					type: 'object',
+					properties: {
+						location: {
+							type: 'string',
+							description: 'The city and state, e.g. San Francisco, CA',
+						},
+						unit: {
+							type: 'string',
+							description: 'The unit of temperature to return',
+							enum: ['celsius', 'fahrenheit'],
+						},
+					},
+					required: ['location'],
+				},
+			},
+		];
+
+		assert.strictEqual(countPrompt(messages, tools), 105);
+		assert.strictEqual(tokenizer.countToolTokens([]), 0);
+	});
+
+	// TODO: replace these with the prompt tokens the API reports. The counts
+	// below are worked out by hand from the estimated overheads, so they only
+	// guard against regressions and don't show that the estimates are right.
+
+	test('counts tool calls by their name and arguments', () => {
+		const call = (id: string): OpenAI.ChatMessageToolCall => ({
+			id,
+			type: 'function',
+			function: { name: 'get_current_weather', arguments: '{"location":"Boston, MA"}' },
+		});
+		const question: OpenAI.ChatMessage = {
+			role: OpenAI.ChatRole.User,
+			content: "What's the weather like in Boston?",
+		};
+		const withCalls = (...ids: string[]) =>
+			countPrompt([
+				question,
+				{ role: OpenAI.ChatRole.Assistant, content: '', tool_calls: ids.map(call) },
+			]);
+
+		assert.strictEqual(countPrompt([question]), 15);
+		assert.strictEqual(withCalls('call_1'), 32);
+		assert.strictEqual(withCalls('call_1', 'call_2'), 45);
+		// IDs are not part of the prompt
+		assert.strictEqual(withCalls('call_with_a_much_longer_id'), 32);
+	});
+
+	test('counts tool call IDs as a single token', () => {
+		assert.strictEqual(
+			tokenizer.countMessageTokens({
+				role: OpenAI.ChatRole.Tool,
+				tool_call_id: 'call_KcHq2JfG8vI3lLhQmnP0xYzE',
+				content: 'Sunny, 22 degrees',
+			}),
+			11
+		);
+	});
+});
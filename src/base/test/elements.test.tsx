@@ -4,6 +4,7 @@
 
 import * as assert from 'assert';
 import { PromptElement } from '../promptElement';
+import { PromptPiece } from '../types';
 import { TextChunk, UserMessage } from '../promptElements';
 import { PromptRenderer } from '../promptRenderer';
 import { ITokenizer } from '../tokenizer/tokenizer';
@@ -84,6 +85,142 @@ suite('PromptElements', () => {
 			]);
 		});
 
+		test('truncates long text with few measurements', async () => {
+			let measured = 0;
+			const countingTokenizer: ITokenizer<OutputMode.Raw> = {
+				mode: OutputMode.Raw,
+				tokenLength: part => {
+					measured++;
+					return tokenizer.tokenLength(part);
+				},
+				countMessageTokens: message => tokenizer.countMessageTokens(message),
+			};
+			const words = Array.from({ length: 20_000 }, (_, i) => `w${i}`);
+			const inst = new PromptRenderer(
+				{ modelMaxPromptTokens: 1000 } satisfies Partial<IChatEndpointInfo> as IChatEndpointInfo,
+				class extends PromptElement {
+					render() {
+						return (
+							<UserMessage>
+								<TextChunk breakOnWhitespace>{words.join(' ')}</TextChunk>
+							</UserMessage>
+						);
+					}
+				},
+				{},
+				countingTokenizer
+			);
+			const res = await inst.render(undefined, undefined);
+			assert.deepStrictEqual(res.messages, [
+				{
+					content: [{
+						type: Raw.ChatCompletionContentPartKind.Text,
+						text: words.slice(0, 999).join(' '),
+					}],
+					role: Raw.ChatRole.User,
+				},
+			]);
+			assert.ok(measured < 25, `measured ${measured} times`);
+		});
+
+		const renderChunk = async (maxPromptTokens: number, chunk: PromptPiece) => {
+			const inst = new PromptRenderer(
+				{
+					modelMaxPromptTokens: maxPromptTokens,
+				} satisfies Partial<IChatEndpointInfo> as IChatEndpointInfo,
+				class extends PromptElement {
+					render() {
+						return <UserMessage>{chunk}</UserMessage>;
+					}
+				},
+				{},
+				tokenizer
+			);
+			const res = await inst.render(undefined, undefined);
+			return res.messages.map(message =>
+				message.content
+					.map(part => (part.type === Raw.ChatCompletionContentPartKind.Text ? part.text : ''))
+					.join('')
+			);
+		};
+
+		test('truncates the start', async () => {
+			assert.deepStrictEqual(
+				await renderChunk(
+					6,
+					<TextChunk breakOn=" " truncate="start">
+						1a 1b 1c 1d 1e 1f 1g 1h 1i 1j
+					</TextChunk>
+				),
+				['1f 1g 1h 1i 1j']
+			);
+		});
+
+		test('truncates the middle with an elision marker', async () => {
+			assert.deepStrictEqual(
+				await renderChunk(
+					6,
+					<TextChunk
+						breakOnWhitespace
+						truncate="middle"
+						elisionMarker={omitted => ` (${omitted.trim().split(' ').length}_omitted) `}
+					>
+						1a 1b 1c 1d 1e 1f 1g 1h 1i 1j
+					</TextChunk>
+				),
+				['1a 1b (6_omitted) 1i 1j']
+			);
+		});
+
+		test('counts the elision marker in the budget', async () => {
+			assert.deepStrictEqual(
+				await renderChunk(
+					6,
+					<TextChunk breakOn=" " elisionMarker=" [more] [truncated]">
+						1a 1b 1c 1d 1e 1f 1g 1h 1i 1j
+					</TextChunk>
+				),
+				['1a 1b 1c [more] [truncated]']
+			);
+			assert.deepStrictEqual(
+				await renderChunk(
+					20,
+					<TextChunk breakOn=" " elisionMarker=" [truncated]">
+						1a 1b 1c
+					</TextChunk>
+				),
+				['1a 1b 1c']
+			);
+		});
+
+		test('prefers cutting between top-level declarations', async () => {
+			const code = [
+				'function a() {',
+				'\treturn one + two + three + four;',
+				'}',
+				'',
+				'function b() {',
+				'\treturn five;',
+				'}',
+			].join('\n');
+			assert.deepStrictEqual(
+				await renderChunk(17, <TextChunk breakOn={{ preset: 'line' }}>{code}</TextChunk>),
+				[code.slice(0, code.indexOf('\n\treturn five'))]
+			);
+			assert.deepStrictEqual(
+				await renderChunk(17, <TextChunk breakOn={{ preset: 'code-block' }}>{code}</TextChunk>),
+				[code.slice(0, code.indexOf('\n\nfunction b'))]
+			);
+		});
+
+		test('does not cut inside fenced code blocks', async () => {
+			const markdown = 'Intro\n\n```ts\nconst a = 1;\n\nconst b = 2;\n```\n\nOutro';
+			assert.deepStrictEqual(
+				await renderChunk(8, <TextChunk breakOn={{ preset: 'paragraph' }}>{markdown}</TextChunk>),
+				['Intro']
+			);
+		});
+
 		test('throws on extrinsic', async () => {
 			await assertThrows(/must be text literals/, async () => {
 				const inst = new PromptRenderer(
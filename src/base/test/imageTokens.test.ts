@@ -0,0 +1,89 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { estimateImageTokens, getImageDimensions } from '../tokenizer/imageTokens';
+
+function toBase64(...chunks: (string | number[])[]) {
+	let binary = '';
+	for (const chunk of chunks) {
+		binary += typeof chunk === 'string' ? chunk : String.fromCharCode(...chunk);
+	}
+	return btoa(binary);
+}
+
+const be16 = (n: number) => [n >> 8, n & 0xff];
+const be32 = (n: number) => [n >>> 24, (n >> 16) & 0xff, (n >> 8) & 0xff, n & 0xff];
+const le16 = (n: number) => [n & 0xff, n >> 8];
+const le24 = (n: number) => [n & 0xff, (n >> 8) & 0xff, n >> 16];
+
+const png = (width: number, height: number) =>
+	'data:image/png;base64,' +
+	toBase64('\x89PNG\r\n\x1a\n', be32(13), 'IHDR', be32(width), be32(height), [8, 6, 0, 0, 0]);
+
+const jpeg = (width: number, height: number) =>
+	toBase64(
+		[0xff, 0xd8],
+		// An APP0 segment to skip over before the frame header
+		[0xff, 0xe0, ...be16(16)],
+		'JFIF\0',
+		new Array(9).fill(0),
+		[0xff, 0xc0, ...be16(17), 8, ...be16(height), ...be16(width), 3],
+		new Array(9).fill(0)
+	);
+
+suite('image tokens', () => {
+	suite('getImageDimensions', () => {
+		test('reads PNG headers', () => {
+			assert.deepStrictEqual(getImageDimensions(png(640, 480)), { width: 640, height: 480 });
+		});
+
+		test('reads JPEG headers', () => {
+			assert.deepStrictEqual(getImageDimensions(jpeg(1920, 1080)), { width: 1920, height: 1080 });
+		});
+
+		test('reads GIF headers', () => {
+			const gif = toBase64('GIF89a', le16(320), le16(200), [0, 0, 0]);
+			assert.deepStrictEqual(getImageDimensions(gif), { width: 320, height: 200 });
+		});
+
+		test('reads WebP headers', () => {
+			const webp = toBase64(
+				'RIFF',
+				[0, 0, 0, 0],
+				'WEBPVP8X',
+				[10, 0, 0, 0],
+				[0, 0, 0, 0],
+				le24(4000 - 1),
+				le24(3000 - 1)
+			);
+			assert.deepStrictEqual(getImageDimensions(webp), { width: 4000, height: 3000 });
+		});
+
+		test('returns undefined for URLs and unknown data', () => {
+			assert.strictEqual(getImageDimensions('https://example.com/a.png'), undefined);
+			assert.strictEqual(getImageDimensions(toBase64('not an image at all')), undefined);
+			assert.strictEqual(getImageDimensions('data:image/png;base64,!!!!'), undefined);
+		});
+	});
+
+	suite('estimateImageTokens', () => {
+		test('uses a fixed cost for low detail', () => {
+			assert.strictEqual(estimateImageTokens({ url: png(4096, 4096), detail: 'low' }), 85);
+		});
+
+		test('counts tiles after scaling', () => {
+			// 1024x1024 is scaled to 768x768, which is 2x2 tiles
+			assert.strictEqual(estimateImageTokens({ url: png(1024, 1024), detail: 'high' }), 765);
+			// 2048x4096 is scaled to 1024x2048 and then to 768x1536, which is 2x3 tiles
+			assert.strictEqual(estimateImageTokens({ url: jpeg(2048, 4096) }), 1105);
+			// Small images are not scaled up
+			assert.strictEqual(estimateImageTokens({ url: png(100, 100) }), 255);
+		});
+
+		test('assumes the largest size if unknown', () => {
+			assert.strictEqual(estimateImageTokens({ url: 'https://example.com/a.png' }), 1445);
+		});
+	});
+});
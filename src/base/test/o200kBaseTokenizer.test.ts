@@ -0,0 +1,104 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { OpenAI, Raw } from '../output/mode';
+import { O200KBaseTokenizer } from '../tokenizer/o200kBaseTokenizer';
+
+suite('O200KBaseTokenizer', () => {
+	const tokenizer = new O200KBaseTokenizer();
+
+	/** Counts a request the way the API reports its prompt tokens. */
+	const countPrompt = (messages: OpenAI.ChatMessage[], tools: Raw.ToolDefinition[] = []) =>
+		messages.reduce((sum, message) => sum + tokenizer.countMessageTokens(message), 0) +
+		tokenizer.countToolTokens(tools) +
+		OpenAI.BaseTokensPerCompletion;
+
+	const text = (text: string) =>
+		tokenizer.tokenLength({ type: Raw.ChatCompletionContentPartKind.Text, text });
+
+	test('tokenizes with the o200k_base vocabulary', () => {
+		assert.strictEqual(text('hello world'), 2);
+		assert.strictEqual(text('Здравствуйте, как дела?'), 5);
+		assert.strictEqual(text('こんにちは世界'), 2);
+		assert.strictEqual(text('const x = await fetch(url);'), 7);
+	});
+
+	// Reference counts below are the prompt tokens reported by the API for `gpt-4o`
+
+	test('counts messages', () => {
+		assert.strictEqual(
+			countPrompt([
+				{
+					role: OpenAI.ChatRole.System,
+					content:
+						'You are a helpful, pattern-following assistant that translates corporate jargon into plain English.',
+				},
+				{
+					role: OpenAI.ChatRole.System,
+					name: 'example_user',
+					content: 'New synergies will help drive top-line growth.',
+				},
+				{
+					role: OpenAI.ChatRole.System,
+					name: 'example_assistant',
+					content: 'Things working well together will increase revenue.',
+				},
+				{
+					role: OpenAI.ChatRole.System,
+					name: 'example_user',
+					content:
+						"Let's circle back when we have more bandwidth to touch base on opportunities for increased leverage.",
+				},
+				{
+					role: OpenAI.ChatRole.System,
+					name: 'example_assistant',
+					content: "Let's talk later when we're less busy about how to do better.",
+				},
+				{
+					role: OpenAI.ChatRole.User,
+					content:
+						"This late pivot means we don't have time to boil the ocean for the client deliverable.",
+				},
+			]),
+			124
+		);
+	});
+
+	test('counts tool definitions', () => {
+		assert.strictEqual(
+			countPrompt(
+				[
+					{
+						role: OpenAI.ChatRole.System,
+						content: 'You are a helpful assistant that can answer to questions about the weather.',
+					},
+					{ role: OpenAI.ChatRole.User, content: "What's the weather like in San Francisco?" },
+				],
+				[
+					{
+						name: 'get_current_weather',
+						description: 'Get the current weather in a given location',
+						parameters: {
+							type: 'object',
+							properties: {
+								location: {
+									type: 'string',
+									description: 'The city and state, e.g. San Francisco, CA',
+								},
+								unit: {
+									type: 'string',
+									description: 'The unit of temperature to return',
+									enum: ['celsius', 'fahrenheit'],
+								},
+							},
+							required: ['location'],
+						},
+					},
+				]
+			),
+			101
+		);
+	});
+});
@@ -0,0 +1,857 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import {
+	ChatTemplate,
+	fromAnthropic,
+	fromGemini,
+	fromOpenAI,
+	fromOpenAIResponses,
+	fromVSCode,
+	OpenAI,
+	OutputMode,
+	Raw,
+	registerOutputMode,
+	toAnthropic,
+	toChatTemplate,
+	toGemini,
+	toMode,
+	toOpenAI,
+	toOpenAIResponses,
+	toVSCode,
+} from '../output/mode';
+import { formatChatTemplate } from '../output/chatTemplateConvert';
+import { PromptElement } from '../promptElement';
+import { UserMessage } from '../promptElements';
+import { PromptRenderer } from '../promptRenderer';
+import {
+	LanguageModelChatMessageRole,
+	LanguageModelImagePart,
+	LanguageModelTextPart,
+	LanguageModelToolCallPart,
+	LanguageModelToolResultPart,
+} from '../standalone-types';
+import { ChatTemplateTokenizer } from '../tokenizer/chatTemplateTokenizer';
+import { ITokenizer } from '../tokenizer/tokenizer';
+import { PromptPiece } from '../types';
+
+const TextMode = 0x10000;
+
+declare module '../output/mode' {
+	interface ModeToChatMessageType {
+		[TextMode]: string;
+	}
+}
+
+suite('Output modes', () => {
+	const conversation: Raw.ChatMessage[] = [
+		{
+			role: Raw.ChatRole.System,
+			content: [
+				{ type: Raw.ChatCompletionContentPartKind.Text, text: 'You are a helpful assistant.' },
+				{ type: Raw.ChatCompletionContentPartKind.CacheBreakpoint, cacheType: 'ephemeral' },
+			],
+		},
+		{
+			role: Raw.ChatRole.User,
+			content: [
+				{ type: Raw.ChatCompletionContentPartKind.Text, text: 'What is in this image?' },
+				{
+					type: Raw.ChatCompletionContentPartKind.Image,
+					imageUrl: { url: 'data:image/png;base64,iVBORw0KGgo=' },
+				},
+			],
+		},
+		{
+			role: Raw.ChatRole.Assistant,
+			content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Let me check.' }],
+			toolCalls: [
+				{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":1}' } },
+				{ id: 'call_2', type: 'function', function: { name: 'lookup', arguments: '{"q":2}' } },
+			],
+		},
+		{
+			role: Raw.ChatRole.Tool,
+			toolCallId: 'call_1',
+			content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'a cat' }],
+		},
+		{
+			role: Raw.ChatRole.Tool,
+			toolCallId: 'call_2',
+			content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'a hat' }],
+		},
+	];
+
+	suite('Anthropic', () => {
+		test('converts individual messages', () => {
+			assert.deepStrictEqual(toMode(OutputMode.Anthropic, conversation), [
+				{
+					role: 'system',
+					content: [
+						{
+							type: 'text',
+							text: 'You are a helpful assistant.',
+							cache_control: { type: 'ephemeral' },
+						},
+					],
+				},
+				{
+					role: 'user',
+					content: [
+						{ type: 'text', text: 'What is in this image?' },
+						{
+							type: 'image',
+							source: { type: 'base64', media_type: 'image/png', data: 'iVBORw0KGgo=' },
+						},
+					],
+				},
+				{
+					role: 'assistant',
+					content: [
+						{ type: 'text', text: 'Let me check.' },
+						{ type: 'tool_use', id: 'call_1', name: 'lookup', input: { q: 1 } },
+						{ type: 'tool_use', id: 'call_2', name: 'lookup', input: { q: 2 } },
+					],
+				},
+				{
+					role: 'user',
+					content: [
+						{
+							type: 'tool_result',
+							tool_use_id: 'call_1',
+							content: [{ type: 'text', text: 'a cat' }],
+						},
+					],
+				},
+				{
+					role: 'user',
+					content: [
+						{
+							type: 'tool_result',
+							tool_use_id: 'call_2',
+							content: [{ type: 'text', text: 'a hat' }],
+						},
+					],
+				},
+			]);
+		});
+
+		test('lifts system messages and merges tool results', () => {
+			const request = toAnthropic(conversation);
+			assert.deepStrictEqual(request.system, [
+				{
+					type: 'text',
+					text: 'You are a helpful assistant.',
+					cache_control: { type: 'ephemeral' },
+				},
+			]);
+			assert.deepStrictEqual(
+				request.messages.map(m => [m.role, m.content.map(c => c.type)]),
+				[
+					['user', ['text', 'image']],
+					['assistant', ['text', 'tool_use', 'tool_use']],
+					['user', ['tool_result', 'tool_result']],
+				]
+			);
+		});
+
+		test('respects opaque scopes', () => {
+			const message: Raw.ChatMessage = {
+				role: Raw.ChatRole.User,
+				content: [
+					{ type: Raw.ChatCompletionContentPartKind.Opaque, value: { type: 'a' } },
+					{
+						type: Raw.ChatCompletionContentPartKind.Opaque,
+						value: { type: 'b' },
+						scope: OutputMode.OpenAI,
+					},
+				],
+			};
+			assert.deepStrictEqual(toMode(OutputMode.Anthropic, message).content, [{ type: 'a' }]);
+		});
+	});
+
+	suite('Gemini', () => {
+		test('builds a request with alternating turns', () => {
+			assert.deepStrictEqual(toGemini(conversation), {
+				systemInstruction: { parts: [{ text: 'You are a helpful assistant.' }] },
+				contents: [
+					{
+						role: 'user',
+						parts: [
+							{ text: 'What is in this image?' },
+							{ inlineData: { mimeType: 'image/png', data: 'iVBORw0KGgo=' } },
+						],
+					},
+					{
+						role: 'model',
+						parts: [
+							{ text: 'Let me check.' },
+							{ functionCall: { id: 'call_1', name: 'lookup', args: { q: 1 } } },
+							{ functionCall: { id: 'call_2', name: 'lookup', args: { q: 2 } } },
+						],
+					},
+					{
+						role: 'user',
+						parts: [
+							{
+								functionResponse: { id: 'call_1', name: 'lookup', response: { output: 'a cat' } },
+							},
+							{
+								functionResponse: { id: 'call_2', name: 'lookup', response: { output: 'a hat' } },
+							},
+						],
+					},
+				],
+			});
+		});
+
+		test('keeps images in tool results', () => {
+			const content = toMode(OutputMode.Gemini, {
+				role: Raw.ChatRole.Tool,
+				toolCallId: 'call_1',
+				name: 'screenshot',
+				content: [
+					{ type: Raw.ChatCompletionContentPartKind.Text, text: 'done' },
+					{
+						type: Raw.ChatCompletionContentPartKind.Image,
+						imageUrl: { url: 'https://example.com/a.png' },
+					},
+				],
+			});
+			assert.deepStrictEqual(content.parts, [
+				{ functionResponse: { id: 'call_1', name: 'screenshot', response: { output: 'done' } } },
+				{ fileData: { fileUri: 'https://example.com/a.png' } },
+			]);
+		});
+	});
+
+	suite('VS Code', () => {
+		test('preserves images, tool calls, and tool results', () => {
+			assert.deepStrictEqual(toVSCode(conversation), [
+				{
+					role: LanguageModelChatMessageRole.System,
+					content: 'You are a helpful assistant.',
+					name: undefined,
+				},
+				{
+					role: LanguageModelChatMessageRole.User,
+					content: 'What is in this image?',
+					parts: [
+						new LanguageModelTextPart('What is in this image?'),
+						new LanguageModelImagePart('data:image/png;base64,iVBORw0KGgo='),
+					],
+					name: undefined,
+				},
+				{
+					role: LanguageModelChatMessageRole.Assistant,
+					content: 'Let me check.',
+					parts: [
+						new LanguageModelTextPart('Let me check.'),
+						new LanguageModelToolCallPart('call_1', 'lookup', { q: 1 }),
+						new LanguageModelToolCallPart('call_2', 'lookup', { q: 2 }),
+					],
+					name: undefined,
+				},
+				{
+					role: LanguageModelChatMessageRole.User,
+					content: 'a cat',
+					parts: [new LanguageModelToolResultPart('call_1', [new LanguageModelTextPart('a cat')])],
+					name: undefined,
+				},
+				{
+					role: LanguageModelChatMessageRole.User,
+					content: 'a hat',
+					parts: [new LanguageModelToolResultPart('call_2', [new LanguageModelTextPart('a hat')])],
+					name: undefined,
+				},
+			]);
+		});
+
+		test('keeps plain text messages as strings', () => {
+			assert.deepStrictEqual(
+				toVSCode({
+					role: Raw.ChatRole.User,
+					content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'hello' }],
+				}),
+				{ role: LanguageModelChatMessageRole.User, content: 'hello', name: undefined }
+			);
+		});
+
+		test('splits several tool results into tool messages', () => {
+			const message = {
+				role: LanguageModelChatMessageRole.User,
+				content: '',
+				parts: [
+					new LanguageModelToolResultPart('call_1', [new LanguageModelTextPart('a cat')]),
+					new LanguageModelToolResultPart('call_2', [new LanguageModelTextPart('a hat')]),
+				],
+			};
+			assert.deepStrictEqual(fromVSCode([message]), conversation.slice(3));
+		});
+	});
+
+	suite('OpenAI Responses', () => {
+		test('emits tool calls and results as top-level items', () => {
+			assert.deepStrictEqual(toOpenAIResponses(conversation), [
+				{ type: 'message', role: 'system', content: 'You are a helpful assistant.' },
+				{
+					type: 'message',
+					role: 'user',
+					content: [
+						{ type: 'input_text', text: 'What is in this image?' },
+						{
+							type: 'input_image',
+							image_url: 'data:image/png;base64,iVBORw0KGgo=',
+							detail: 'auto',
+						},
+					],
+				},
+				{ type: 'message', role: 'assistant', content: 'Let me check.' },
+				{ type: 'function_call', call_id: 'call_1', name: 'lookup', arguments: '{"q":1}' },
+				{ type: 'function_call', call_id: 'call_2', name: 'lookup', arguments: '{"q":2}' },
+				{ type: 'function_call_output', call_id: 'call_1', output: 'a cat' },
+				{ type: 'function_call_output', call_id: 'call_2', output: 'a hat' },
+			]);
+		});
+
+		test('omits empty assistant text when there are tool calls', () => {
+			const items = toMode(OutputMode.OpenAIResponses, {
+				role: Raw.ChatRole.Assistant,
+				content: [],
+				toolCalls: [{ id: 'call_1', type: 'function', function: { name: 'f', arguments: '{}' } }],
+			});
+			assert.deepStrictEqual(items, [
+				{ type: 'function_call', call_id: 'call_1', name: 'f', arguments: '{}' },
+			]);
+		});
+	});
+
+	suite('Chat template', () => {
+		const messages: Raw.ChatMessage[] = [
+			{
+				role: Raw.ChatRole.System,
+				content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Be brief.' }],
+			},
+			{
+				role: Raw.ChatRole.User,
+				content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Hi' }],
+			},
+		];
+
+		test('formats built-in templates', () => {
+			assert.strictEqual(
+				toChatTemplate(messages, ChatTemplate.ChatML),
+				'<|im_start|>system\nBe brief.<|im_end|>\n<|im_start|>user\nHi<|im_end|>\n<|im_start|>assistant\n'
+			);
+			assert.strictEqual(
+				toChatTemplate(messages, ChatTemplate.Mistral),
+				'<s>[INST] Be brief.\n\nHi [/INST]'
+			);
+		});
+
+		test('merges roles without a format into the next user turn', () => {
+			const text = (role: ChatTemplate.ChatRole, content: string) => ({ role, content });
+			assert.strictEqual(
+				formatChatTemplate(ChatTemplate.Phi3, [
+					text(ChatTemplate.ChatRole.User, 'Find q'),
+					text(ChatTemplate.ChatRole.Assistant, 'lookup(q)'),
+					text(ChatTemplate.ChatRole.Tool, 'a cat'),
+					text(ChatTemplate.ChatRole.User, 'Thanks'),
+					text(ChatTemplate.ChatRole.Assistant, 'lookup(r)'),
+					text(ChatTemplate.ChatRole.Tool, 'a hat'),
+				]),
+				'<|user|>\nFind q<|end|>\n<|assistant|>\nlookup(q)<|end|>\n' +
+					'<|user|>\na cat\n\nThanks<|end|>\n<|assistant|>\nlookup(r)<|end|>\n' +
+					'<|user|>\na hat<|end|>\n<|assistant|>\n'
+			);
+		});
+
+		test('serializes tool calls as text', () => {
+			assert.deepStrictEqual(toMode(OutputMode.ChatTemplate, conversation[2]), {
+				role: 'assistant',
+				content:
+					'Let me check.\n{"name":"lookup","arguments":{"q":1}}\n{"name":"lookup","arguments":{"q":2}}',
+			});
+		});
+
+		test('counts special tokens as single tokens', async () => {
+			const charTokenizer: ITokenizer<OutputMode.Raw> = {
+				mode: OutputMode.Raw,
+				tokenLength: part =>
+					part.type === Raw.ChatCompletionContentPartKind.Text ? part.text.length : 0,
+				countMessageTokens: () => 0,
+			};
+			const tokenizer = new ChatTemplateTokenizer(
+				{
+					messages: { user: '<u>{content}</u>', assistant: '<a>{content}' },
+					specialTokens: ['<u>', '</u>'],
+				},
+				charTokenizer
+			);
+
+			assert.strictEqual(
+				await tokenizer.countMessageTokens({ role: ChatTemplate.ChatRole.User, content: 'abc' }),
+				5
+			);
+			assert.strictEqual(
+				await tokenizer.countMessageTokens({
+					role: ChatTemplate.ChatRole.Assistant,
+					content: 'abc',
+				}),
+				6
+			);
+		});
+	});
+
+	suite('thinking', () => {
+		const question: Raw.ChatMessage = {
+			role: Raw.ChatRole.User,
+			content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Find q' }],
+		};
+		const reasoning: Raw.ChatMessage = {
+			role: Raw.ChatRole.Assistant,
+			content: [
+				{ type: Raw.ChatCompletionContentPartKind.Thinking, text: 'Look it up.', signature: 'sig' },
+				{ type: Raw.ChatCompletionContentPartKind.Thinking, text: '', signature: 'enc' },
+				{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Let me check.' },
+			],
+			toolCalls: [
+				{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":1}' } },
+			],
+		};
+
+		test('leads the assistant turn in Anthropic', () => {
+			assert.deepStrictEqual(toMode(OutputMode.Anthropic, reasoning).content, [
+				{ type: 'thinking', thinking: 'Look it up.', signature: 'sig' },
+				{ type: 'redacted_thinking', data: 'enc' },
+				{ type: 'text', text: 'Let me check.' },
+				{ type: 'tool_use', id: 'call_1', name: 'lookup', input: { q: 1 } },
+			]);
+		});
+
+		test('attaches signatures to the next part in Gemini', () => {
+			assert.deepStrictEqual(toMode(OutputMode.Gemini, reasoning).parts, [
+				{ text: 'Look it up.', thought: true, thoughtSignature: 'sig' },
+				{ text: 'Let me check.', thoughtSignature: 'enc' },
+				{ functionCall: { id: 'call_1', name: 'lookup', args: { q: 1 } } },
+			]);
+
+			const toolOnly = { ...reasoning, content: reasoning.content.slice(1, 2) };
+			assert.deepStrictEqual(toMode(OutputMode.Gemini, toolOnly).parts, [
+				{
+					functionCall: { id: 'call_1', name: 'lookup', args: { q: 1 } },
+					thoughtSignature: 'enc',
+				},
+			]);
+		});
+
+		test('emits reasoning items in OpenAI Responses', () => {
+			assert.deepStrictEqual(toMode(OutputMode.OpenAIResponses, reasoning), [
+				{
+					type: 'reasoning',
+					summary: [{ type: 'summary_text', text: 'Look it up.' }],
+					encrypted_content: 'sig',
+				},
+				{ type: 'reasoning', summary: [], encrypted_content: 'enc' },
+				{ type: 'message', role: 'assistant', content: 'Let me check.' },
+				{ type: 'function_call', call_id: 'call_1', name: 'lookup', arguments: '{"q":1}' },
+			]);
+		});
+
+		test('is dropped where it cannot be represented', () => {
+			assert.strictEqual(toMode(OutputMode.OpenAI, reasoning).content, 'Let me check.');
+			assert.strictEqual(toMode(OutputMode.VSCode, reasoning).content, 'Let me check.');
+			assert.strictEqual(
+				toMode(OutputMode.ChatTemplate, reasoning).content.includes('Look'),
+				false
+			);
+			assert.deepStrictEqual(
+				toMode(OutputMode.Anthropic, { ...question, content: reasoning.content }).content,
+				[{ type: 'text', text: 'Let me check.' }]
+			);
+		});
+
+		test('round-trips through provider formats', () => {
+			const messages = [question, reasoning];
+			assert.deepStrictEqual(fromAnthropic(toAnthropic(messages)), messages);
+			assert.deepStrictEqual(fromGemini(toGemini(messages)), messages);
+			assert.deepStrictEqual(fromOpenAIResponses(toOpenAIResponses(messages)), messages);
+		});
+	});
+
+	suite('documents', () => {
+		const pdf: Raw.ChatCompletionContentPartDocument = {
+			type: Raw.ChatCompletionContentPartKind.Document,
+			document: { url: 'data:application/pdf;base64,JVBERi0=', mimeType: 'application/pdf' },
+		};
+		const text: Raw.ChatCompletionContentPartDocument = {
+			type: Raw.ChatCompletionContentPartKind.Document,
+			document: { url: 'data:text/plain;base64,aGk=', mimeType: 'text/plain', title: 'a.txt' },
+		};
+		const linked: Raw.ChatCompletionContentPartDocument = {
+			type: Raw.ChatCompletionContentPartKind.Document,
+			document: { url: 'https://example.com/b.pdf', mimeType: 'application/pdf' },
+		};
+		const message = (...content: Raw.ChatCompletionContentPart[]): Raw.ChatMessage => ({
+			role: Raw.ChatRole.User,
+			content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Read' }, ...content],
+		});
+
+		let warn: typeof console.warn;
+		let warnings: string[];
+		setup(() => {
+			warn = console.warn;
+			warnings = [];
+			console.warn = (message: string) => warnings.push(message);
+		});
+		teardown(() => {
+			console.warn = warn;
+		});
+
+		test('emits file parts in OpenAI', () => {
+			assert.deepStrictEqual(toMode(OutputMode.OpenAI, message(pdf, text)).content, [
+				{ type: 'text', text: 'Read' },
+				{ type: 'file', file: { file_data: 'data:application/pdf;base64,JVBERi0=' } },
+				{ type: 'file', file: { file_data: 'data:text/plain;base64,aGk=', filename: 'a.txt' } },
+			]);
+			assert.deepStrictEqual(toMode(OutputMode.OpenAIResponses, message(linked)), [
+				{
+					type: 'message',
+					role: 'user',
+					content: [
+						{ type: 'input_text', text: 'Read' },
+						{ type: 'input_file', file_url: 'https://example.com/b.pdf' },
+					],
+				},
+			]);
+		});
+
+		test('emits document blocks in Anthropic', () => {
+			assert.deepStrictEqual(toMode(OutputMode.Anthropic, message(pdf, text, linked)).content, [
+				{ type: 'text', text: 'Read' },
+				{
+					type: 'document',
+					source: { type: 'base64', media_type: 'application/pdf', data: 'JVBERi0=' },
+				},
+				{
+					type: 'document',
+					source: { type: 'text', media_type: 'text/plain', data: 'hi' },
+					title: 'a.txt',
+				},
+				{ type: 'document', source: { type: 'url', url: 'https://example.com/b.pdf' } },
+			]);
+		});
+
+		test('emits data parts in Gemini', () => {
+			assert.deepStrictEqual(toMode(OutputMode.Gemini, message(pdf, linked)).parts, [
+				{ text: 'Read' },
+				{ inlineData: { mimeType: 'application/pdf', data: 'JVBERi0=' } },
+				{ fileData: { mimeType: 'application/pdf', fileUri: 'https://example.com/b.pdf' } },
+			]);
+		});
+
+		test('warns when documents are omitted', () => {
+			assert.deepStrictEqual(toMode(OutputMode.OpenAI, message(linked)).content, 'Read');
+			assert.strictEqual(toMode(OutputMode.ChatTemplate, message(pdf)).content, 'Read');
+			assert.strictEqual(toMode(OutputMode.ChatTemplate, message(pdf)).content, 'Read');
+			assert.deepStrictEqual(warnings, [
+				'prompt-tsx: document attachments were omitted: OpenAI output only supports inline documents',
+				'prompt-tsx: document attachments were omitted: chat templates do not support documents',
+			]);
+		});
+
+		test('round-trips through provider formats', () => {
+			const messages = [message(pdf, text)];
+			assert.deepStrictEqual(fromOpenAI(toOpenAI(messages)), messages);
+			assert.deepStrictEqual(fromOpenAIResponses(toOpenAIResponses(messages)), messages);
+			assert.deepStrictEqual(fromAnthropic(toAnthropic(messages)), messages);
+			assert.deepStrictEqual(fromGemini(toGemini([message(pdf)])), [message(pdf)]);
+		});
+	});
+
+	suite('audio', () => {
+		const clip: Raw.ChatMessage = {
+			role: Raw.ChatRole.User,
+			content: [
+				{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Transcribe' },
+				{
+					type: Raw.ChatCompletionContentPartKind.Audio,
+					audio: { data: 'UklGRg==', format: 'wav' },
+				},
+			],
+		};
+
+		let warn: typeof console.warn;
+		let warnings: string[];
+		setup(() => {
+			warn = console.warn;
+			warnings = [];
+			console.warn = (message: string) => warnings.push(message);
+		});
+		teardown(() => {
+			console.warn = warn;
+		});
+
+		test('emits input_audio parts in OpenAI', () => {
+			assert.deepStrictEqual(toMode(OutputMode.OpenAI, clip).content, [
+				{ type: 'text', text: 'Transcribe' },
+				{ type: 'input_audio', input_audio: { data: 'UklGRg==', format: 'wav' } },
+			]);
+		});
+
+		test('emits inline data in Gemini', () => {
+			assert.deepStrictEqual(toMode(OutputMode.Gemini, clip).parts, [
+				{ text: 'Transcribe' },
+				{ inlineData: { mimeType: 'audio/wav', data: 'UklGRg==' } },
+			]);
+		});
+
+		test('warns when audio is omitted', () => {
+			const flac: Raw.ChatMessage = {
+				...clip,
+				content: [clip.content[0], { ...clip.content[1], audio: { data: '', format: 'flac' } }],
+			} as Raw.ChatMessage;
+			assert.strictEqual(toMode(OutputMode.OpenAI, flac).content, 'Transcribe');
+			assert.deepStrictEqual(toMode(OutputMode.Anthropic, clip).content, [
+				{ type: 'text', text: 'Transcribe' },
+			]);
+			assert.deepStrictEqual(warnings, [
+				'prompt-tsx: audio was omitted: OpenAI output only supports wav and mp3 audio',
+				'prompt-tsx: audio was omitted: Anthropic output does not support audio',
+			]);
+		});
+
+		test('estimates tokens from the duration', () => {
+			const part: Raw.ChatCompletionContentPartAudio = {
+				type: Raw.ChatCompletionContentPartKind.Audio,
+				audio: { data: '', format: 'wav', duration: 2.05 },
+			};
+			assert.strictEqual(Raw.ChatCompletionContentPartAudio.estimateTokens(part), 21);
+			assert.strictEqual(
+				Raw.ChatCompletionContentPartAudio.estimateTokens({
+					...part,
+					audio: { ...part.audio, duration: undefined },
+				}),
+				0
+			);
+		});
+
+		test('round-trips through provider formats', () => {
+			assert.deepStrictEqual(fromOpenAI(toOpenAI([clip])), [clip]);
+			assert.deepStrictEqual(fromGemini(toGemini([clip])), [clip]);
+		});
+	});
+
+	suite('developer', () => {
+		const messages: Raw.ChatMessage[] = [
+			{
+				role: Raw.ChatRole.Developer,
+				content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Be brief' }],
+			},
+			{
+				role: Raw.ChatRole.User,
+				content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Hi' }],
+			},
+		];
+
+		test('uses the developer role in OpenAI', () => {
+			assert.deepStrictEqual(toOpenAI(messages)[0], {
+				role: OpenAI.ChatRole.Developer,
+				content: 'Be brief',
+				name: undefined,
+			});
+			assert.deepStrictEqual(toOpenAIResponses(messages)[0], {
+				type: 'message',
+				role: 'developer',
+				content: 'Be brief',
+			});
+		});
+
+		test('is a system instruction elsewhere', () => {
+			assert.deepStrictEqual(toAnthropic(messages).system, [{ type: 'text', text: 'Be brief' }]);
+			assert.deepStrictEqual(toGemini(messages).systemInstruction, {
+				parts: [{ text: 'Be brief' }],
+			});
+			assert.strictEqual(
+				toChatTemplate(messages, ChatTemplate.ChatML).startsWith('<|im_start|>system\nBe brief'),
+				true
+			);
+			assert.strictEqual(
+				toMode(OutputMode.VSCode, messages[0]).role,
+				LanguageModelChatMessageRole.System
+			);
+		});
+
+		test('round-trips through OpenAI formats', () => {
+			assert.deepStrictEqual(fromOpenAI(toOpenAI(messages)), messages);
+			assert.deepStrictEqual(fromOpenAIResponses(toOpenAIResponses(messages)), messages);
+		});
+	});
+
+	suite('import', () => {
+		// The conversation without its cache breakpoint, which OpenAI formats drop
+		const plain = conversation.map(m => ({
+			...m,
+			content: m.content.filter(p => p.type !== Raw.ChatCompletionContentPartKind.CacheBreakpoint),
+		})) as Raw.ChatMessage[];
+
+		test('round-trips OpenAI messages', () => {
+			assert.deepStrictEqual(fromOpenAI(toOpenAI(plain)), plain);
+		});
+
+		test('round-trips OpenAI Responses items', () => {
+			assert.deepStrictEqual(fromOpenAIResponses(toOpenAIResponses(plain)), plain);
+		});
+
+		test('round-trips Anthropic requests', () => {
+			assert.deepStrictEqual(fromAnthropic(toAnthropic(conversation)), conversation);
+		});
+
+		test('round-trips Gemini requests', () => {
+			const named = plain.map(m =>
+				m.role === Raw.ChatRole.Tool ? { ...m, name: 'lookup' } : m
+			) as Raw.ChatMessage[];
+			assert.deepStrictEqual(fromGemini(toGemini(plain)), named);
+		});
+
+		test('round-trips VS Code messages', () => {
+			assert.deepStrictEqual(fromVSCode(toVSCode(plain)), plain);
+		});
+
+		test('keeps unknown OpenAI parts scoped to OpenAI', () => {
+			const refusal = { type: 'refusal', refusal: 'No.' };
+			assert.deepStrictEqual(
+				fromOpenAI({ role: OpenAI.ChatRole.User, content: [refusal as any] })?.content,
+				[
+					{
+						type: Raw.ChatCompletionContentPartKind.Opaque,
+						value: refusal,
+						scope: OutputMode.OpenAI,
+					},
+				]
+			);
+		});
+	});
+
+	suite('custom', () => {
+		const toText = (message: Raw.ChatMessage) =>
+			message.content
+				.map(part => {
+					if (part.type === Raw.ChatCompletionContentPartKind.Text) {
+						return part.text;
+					} else if (
+						part.type === Raw.ChatCompletionContentPartKind.Opaque &&
+						Raw.ChatCompletionContentPartOpaque.usableIn(part, TextMode)
+					) {
+						return String(part.value);
+					}
+					return '';
+				})
+				.join('') || undefined;
+
+		test('converts with the registered converter', () => {
+			const registration = registerOutputMode(TextMode, { toChatMessage: toText });
+			try {
+				assert.strictEqual(toMode(TextMode, conversation[0]), 'You are a helpful assistant.');
+				assert.deepStrictEqual(toMode(TextMode, conversation), [
+					'You are a helpful assistant.',
+					'What is in this image?',
+					'Let me check.',
+					'a cat',
+					'a hat',
+				]);
+			} finally {
+				registration.dispose();
+			}
+		});
+
+		test('uses the list converter if given', () => {
+			const registration = registerOutputMode(TextMode, {
+				toChatMessage: toText,
+				toChatMessages: messages => [messages.map(toText).join('\n')],
+			});
+			try {
+				assert.deepStrictEqual(toMode(TextMode, conversation.slice(0, 2)), [
+					'You are a helpful assistant.\nWhat is in this image?',
+				]);
+			} finally {
+				registration.dispose();
+			}
+		});
+
+		test('honors opaque part scopes', () => {
+			const registration = registerOutputMode(TextMode, { toChatMessage: toText });
+			try {
+				const message: Raw.ChatMessage = {
+					role: Raw.ChatRole.User,
+					content: [
+						{ type: Raw.ChatCompletionContentPartKind.Opaque, value: 'a', scope: TextMode },
+						{ type: Raw.ChatCompletionContentPartKind.Opaque, value: 'b', scope: OutputMode.Raw },
+					],
+				};
+				assert.strictEqual(toMode(TextMode, message), 'a');
+			} finally {
+				registration.dispose();
+			}
+		});
+
+		test('renders with the registered tokenizer', async () => {
+			const created: ITokenizer<typeof TextMode>[] = [];
+			const registration = registerOutputMode(TextMode, {
+				toChatMessage: toText,
+				createTokenizer: () => {
+					const tokenizer: ITokenizer<typeof TextMode> = {
+						mode: TextMode,
+						tokenLength: part =>
+							part.type === Raw.ChatCompletionContentPartKind.Text ? part.text.length : 0,
+						// Messages without text have no representation in the mode
+						countMessageTokens: message => (message ?? '').length,
+					};
+					created.push(tokenizer);
+					return tokenizer;
+				},
+			});
+			try {
+				class Prompt extends PromptElement {
+					render(): PromptPiece {
+						return { ctor: UserMessage, props: {}, children: ['What is in this image?'] };
+					}
+				}
+
+				const render = () =>
+					new PromptRenderer({ modelMaxPromptTokens: 1000 } as any, Prompt, {}, TextMode).render();
+				const res = await render();
+				assert.deepStrictEqual(res.messages, ['What is in this image?']);
+				assert.strictEqual(res.tokenCount, 22);
+
+				await render();
+				assert.strictEqual(created.length, 1);
+			} finally {
+				registration.dispose();
+			}
+			assert.throws(
+				() => new PromptRenderer({ modelMaxPromptTokens: 1000 } as any, UserMessage, {}, TextMode),
+				/No tokenizer is registered/
+			);
+		});
+
+		test('rejects invalid modes', () => {
+			assert.throws(
+				() => registerOutputMode(OutputMode.Gemini as any, { toChatMessage: toText }),
+				/reserved/
+			);
+			assert.throws(() => registerOutputMode(3 as any, { toChatMessage: toText }), /single bit/);
+
+			const registration = registerOutputMode(TextMode, { toChatMessage: toText });
+			try {
+				assert.throws(() => registerOutputMode(TextMode, { toChatMessage: toText }), /already/);
+			} finally {
+				registration.dispose();
+			}
+			assert.throws(() => toMode(TextMode, conversation), /Unknown output mode/);
+		});
+	});
+});
@@ -0,0 +1,120 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { Raw } from '../output/mode';
+import { createPromptContext, PromptContext } from '../promptContext';
+import { PromptElement } from '../promptElement';
+import { SystemMessage, UserMessage } from '../promptElements';
+import { PromptRenderer } from '../promptRenderer';
+import { Cl100KBaseTokenizer } from '../tokenizer/cl100kBaseTokenizer';
+import { BasePromptElementProps, PromptPieceChild, PromptSizing } from '../types';
+
+suite('PromptContext', () => {
+	const tokenizer = new Cl100KBaseTokenizer();
+	const UserName = createPromptContext('nobody');
+	const Language = createPromptContext<string | undefined>(undefined);
+
+	async function renderTexts(piece: PromptPieceChild) {
+		const res = await new PromptRenderer(
+			{ modelMaxPromptTokens: 1000 } as any,
+			class extends PromptElement {
+				render() {
+					return <>{piece}</>;
+				}
+			},
+			{},
+			tokenizer
+		).renderRaw();
+		return res.messages.map(m =>
+			m.content.map(p => (p.type === Raw.ChatCompletionContentPartKind.Text ? p.text : '')).join('')
+		);
+	}
+
+	class Greeting extends PromptElement {
+		render() {
+			return <UserMessage>Hello, {this.getContext(UserName)}!</UserMessage>;
+		}
+	}
+
+	test('reads the nearest provided value', async () => {
+		assert.deepStrictEqual(
+			await renderTexts(
+				<>
+					<Greeting />
+					<UserName.Provider value="alice">
+						<Greeting />
+						<UserName.Provider value="bob">
+							<Greeting />
+						</UserName.Provider>
+						<Greeting />
+					</UserName.Provider>
+				</>
+			),
+			['Hello, nobody!', 'Hello, alice!', 'Hello, bob!', 'Hello, alice!']
+		);
+	});
+
+	test('reads values through other elements and contexts', async () => {
+		class Wrapper extends PromptElement {
+			render() {
+				return <>{this.props.children}</>;
+			}
+		}
+
+		assert.deepStrictEqual(
+			await renderTexts(
+				<UserName.Provider value="alice">
+					<Language.Provider value="TypeScript">
+						<Wrapper>
+							<Greeting />
+						</Wrapper>
+					</Language.Provider>
+				</UserName.Provider>
+			),
+			['Hello, alice!']
+		);
+	});
+
+	test('reads values in prepare', async () => {
+		class Prepared extends PromptElement<BasePromptElementProps, string> {
+			async prepare() {
+				return this.getContext(Language) ?? 'an unknown language';
+			}
+
+			render(language: string) {
+				return <SystemMessage>Answer in {language}.</SystemMessage>;
+			}
+		}
+
+		assert.deepStrictEqual(
+			await renderTexts(
+				<>
+					<Prepared />
+					<Language.Provider value="Rust">
+						<Prepared />
+					</Language.Provider>
+				</>
+			),
+			['Answer in an unknown language.', 'Answer in Rust.']
+		);
+	});
+
+	test('reads values in function elements', async () => {
+		const FunctionGreeting = (
+			_props: BasePromptElementProps,
+			_sizing: PromptSizing,
+			getContext: <T>(context: PromptContext<T>) => T
+		) => <UserMessage>Hi, {getContext(UserName)}!</UserMessage>;
+
+		assert.deepStrictEqual(
+			await renderTexts(
+				<UserName.Provider value="carol">
+					<FunctionGreeting />
+				</UserName.Provider>
+			),
+			['Hi, carol!']
+		);
+	});
+});
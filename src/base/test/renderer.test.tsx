@@ -9,7 +9,10 @@ import { BaseTokensPerCompletion } from '../output/openaiTypes';
 import { PromptElement } from '../promptElement';
 import {
 	AssistantMessage,
+	Audio,
 	Chunk,
+	DeveloperMessage,
+	Document,
 	Expandable,
 	IfEmpty,
 	Image,
@@ -19,19 +22,29 @@ import {
 	SystemMessage,
 	TextChunk,
 	TokenLimit,
+	ToolDefinition,
 	ToolMessage,
 	ToolResult,
 	useKeepWith,
 	UserMessage,
 } from '../promptElements';
-import { PromptRenderer, RenderPromptResult } from '../promptRenderer';
+import {
+	PromptRenderEvent,
+	PromptRenderer,
+	QueueItem,
+	RenderPromptResult,
+} from '../promptRenderer';
 import { PromptMetadata, PromptReference } from '../results';
+import { ChatTemplateTokenizer } from '../tokenizer/chatTemplateTokenizer';
 import { Cl100KBaseTokenizer } from '../tokenizer/cl100kBaseTokenizer';
+import { SimpleTokenizer } from '../tokenizer/standalone-tokenizer';
 import { ITokenizer } from '../tokenizer/tokenizer';
 import {
 	BasePromptElementProps,
 	IChatEndpointInfo,
 	PromptElementCtor,
+	PromptElementProps,
+	PromptElementType,
 	PromptPiece,
 	PromptPieceChild,
 	PromptSizing,
@@ -61,7 +74,7 @@ suite('PromptRenderer', () => {
 		P extends BasePromptElementProps = BasePromptElementProps
 	>(
 		maxPromptTokens: number,
-		ctor: PromptElementCtor<P, any>,
+		ctor: PromptElementType<P, any>,
 		props: P
 	): Promise<RenderPromptResult<OutputMode.Raw>> {
 		const fakeEndpoint: any = {
@@ -1434,6 +1447,39 @@ suite('PromptRenderer', () => {
 			]);
 			assert.equal(res2.tokenCount, 108);
 		});
+
+		test('are measured in batches if the tokenizer supports it', async () => {
+			const batches: number[] = [];
+			const batchingTokenizer = new (class extends Cl100KBaseTokenizer {
+				override tokenLength(): number {
+					throw new Error('Expected parts to be measured in batches');
+				}
+
+				tokenLengthBatch(parts: readonly Raw.ChatCompletionContentPart[]) {
+					batches.push(parts.length);
+					return parts.map(part => super.tokenLength(part));
+				}
+			})();
+
+			const endpoint: any = {
+				modelMaxPromptTokens: 140 - BaseTokensPerCompletion,
+			} satisfies Partial<IChatEndpointInfo>;
+			const expected = await new PromptRenderer(
+				endpoint,
+				PromptWithChunks,
+				{},
+				tokenizer
+			).renderRaw();
+			const actual = await new PromptRenderer(
+				endpoint,
+				PromptWithChunks,
+				{},
+				batchingTokenizer
+			).renderRaw();
+			assert.deepStrictEqual(actual.messages, expected.messages);
+			assert.strictEqual(actual.tokenCount, expected.tokenCount);
+			assert.ok(batches.some(size => size > 1));
+		});
 	});
 
 	suite('tracks surviving prompt references', async () => {
@@ -2866,6 +2912,601 @@ suite('PromptRenderer', () => {
 				},
 			]);
 		});
+
+		test('counts images by their dimensions', async () => {
+			// PNG header for a 1024x1024 image
+			const src = 'iVBORw0KGgoAAAANSUhEUgAABAAAAAQACAYAAAA=';
+			class Prompt extends PromptElement<{ detail: 'low' | 'high' } & BasePromptElementProps> {
+				render() {
+					return (
+						<UserMessage>
+							<Image src={src} detail={this.props.detail} />
+						</UserMessage>
+					);
+				}
+			}
+
+			const count = async (detail: 'low' | 'high') =>
+				(await new PromptRenderer(fakeEndpoint, Prompt, { detail }, tokenizer).render()).tokenCount;
+			assert.strictEqual((await count('high')) - (await count('low')), 765 - 85);
+		});
+
+		test('prunes low priority images', async () => {
+			const res = await new PromptRenderer(
+				{ modelMaxPromptTokens: 100 } as any,
+				class extends PromptElement {
+					render() {
+						return (
+							<UserMessage>
+								<TextChunk>Describe</TextChunk>
+								<Image priority={1} src="iVBORw0KGgoAAAANSUhEUgAABAAAAAQACAYAAAA=" />
+							</UserMessage>
+						);
+					}
+				},
+				{},
+				tokenizer
+			).renderRaw();
+			assert.deepStrictEqual(res.messages[0].content, [
+				{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Describe' },
+			]);
+		});
+	});
+
+	suite('DeveloperMessage', () => {
+		test('renders with the developer role', async () => {
+			const res = await new PromptRenderer(
+				fakeEndpoint,
+				class extends PromptElement {
+					render() {
+						return (
+							<>
+								<DeveloperMessage>Be brief</DeveloperMessage>
+								<UserMessage>Hi</UserMessage>
+							</>
+						);
+					}
+				},
+				{},
+				tokenizer
+			).renderRaw();
+			assert.deepStrictEqual(res.messages, [
+				{
+					role: Raw.ChatRole.Developer,
+					content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Be brief' }],
+				},
+				{
+					role: Raw.ChatRole.User,
+					content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Hi' }],
+				},
+			]);
+		});
+	});
+
+	suite('Document', () => {
+		class PromptWithDocuments extends PromptElement {
+			render() {
+				return (
+					<UserMessage>
+						<TextChunk>Summarize these</TextChunk>
+						<Document src={btoa('hello world')} mimeType="text/plain" title="a.txt" />
+						<Document src="https://example.com/b.pdf" mimeType="application/pdf" />
+					</UserMessage>
+				);
+			}
+		}
+
+		const expected: Raw.ChatMessage[] = [
+			{
+				role: Raw.ChatRole.User,
+				content: [
+					{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Summarize these' },
+					{
+						type: Raw.ChatCompletionContentPartKind.Document,
+						document: {
+							url: 'data:text/plain;base64,aGVsbG8gd29ybGQ=',
+							mimeType: 'text/plain',
+							title: 'a.txt',
+						},
+					},
+					{
+						type: Raw.ChatCompletionContentPartKind.Document,
+						document: { url: 'https://example.com/b.pdf', mimeType: 'application/pdf' },
+					},
+				],
+			},
+		];
+
+		test('renders base64 and URL sources', async () => {
+			const inst = new PromptRenderer(fakeEndpoint, PromptWithDocuments, {}, tokenizer);
+			const res = await inst.renderRaw(undefined, undefined);
+			assert.deepStrictEqual(res.messages, expected);
+		});
+
+		test('round trips through element JSON', async () => {
+			const json = await renderElementJSON(
+				class extends PromptElement {
+					render() {
+						return <Document src={btoa('hello world')} mimeType="text/plain" title="a.txt" />;
+					}
+				},
+				{},
+				undefined
+			);
+
+			const res = await new PromptRenderer(
+				fakeEndpoint,
+				class extends PromptElement {
+					render() {
+						return (
+							<UserMessage>
+								<ToolResult
+									data={new LanguageModelToolResult([new LanguageModelPromptTsxPart(json)])}
+								/>
+							</UserMessage>
+						);
+					}
+				},
+				{},
+				tokenizer
+			).renderRaw();
+			assert.deepStrictEqual(res.messages[0].content, [expected[0].content[1]]);
+		});
+
+		test('counts inline text documents as their text', async () => {
+			assert.strictEqual(
+				await tokenizer.tokenLength(expected[0].content[1]),
+				await tokenizer.tokenLength({
+					type: Raw.ChatCompletionContentPartKind.Text,
+					text: 'hello world',
+				})
+			);
+			assert.strictEqual(await tokenizer.tokenLength(expected[0].content[2]), 0);
+		});
+
+		test('prunes low priority documents', async () => {
+			const res = await new PromptRenderer(
+				{ modelMaxPromptTokens: 30 } as any,
+				class extends PromptElement {
+					render() {
+						return (
+							<UserMessage>
+								<TextChunk>Summarize</TextChunk>
+								<Document
+									priority={1}
+									src={btoa('a long document '.repeat(10))}
+									mimeType="text/markdown"
+								/>
+							</UserMessage>
+						);
+					}
+				},
+				{},
+				tokenizer
+			).renderRaw();
+			assert.deepStrictEqual(res.messages[0].content, [
+				{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Summarize' },
+			]);
+		});
+
+		test('prunes documents that VS Code tokenizers cannot measure', async () => {
+			const res = await new PromptRenderer(
+				{ modelMaxPromptTokens: 30 } as any,
+				class extends PromptElement {
+					render() {
+						return (
+							<UserMessage>
+								<TextChunk>Summarize</TextChunk>
+								<Document
+									priority={1}
+									src={btoa('%PDF-1.7 '.repeat(20))}
+									mimeType="application/pdf"
+								/>
+							</UserMessage>
+						);
+					}
+				},
+				{},
+				new SimpleTokenizer()
+			).renderRaw();
+			assert.deepStrictEqual(res.messages[0].content, [
+				{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Summarize' },
+			]);
+		});
+	});
+
+	suite('Audio', () => {
+		test('renders audio clips', async () => {
+			const res = await new PromptRenderer(
+				fakeEndpoint,
+				class extends PromptElement {
+					render() {
+						return (
+							<UserMessage>
+								<TextChunk>Transcribe</TextChunk>
+								<Audio src="UklGRg==" format="wav" duration={1.5} />
+							</UserMessage>
+						);
+					}
+				},
+				{},
+				tokenizer
+			).renderRaw();
+			assert.deepStrictEqual(res.messages, [
+				{
+					role: Raw.ChatRole.User,
+					content: [
+						{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Transcribe' },
+						{
+							type: Raw.ChatCompletionContentPartKind.Audio,
+							audio: { data: 'UklGRg==', format: 'wav', duration: 1.5 },
+						},
+					],
+				},
+			]);
+		});
+
+		test('counts audio by its duration', async () => {
+			class Prompt extends PromptElement<{ duration: number } & BasePromptElementProps> {
+				render() {
+					return (
+						<UserMessage>
+							<TextChunk>Transcribe</TextChunk>
+							<Audio src="UklGRg==" format="wav" duration={this.props.duration} />
+						</UserMessage>
+					);
+				}
+			}
+
+			const count = async (duration: number) =>
+				(await new PromptRenderer(fakeEndpoint, Prompt, { duration }, tokenizer).render())
+					.tokenCount;
+			assert.strictEqual((await count(3)) - (await count(1)), 20);
+		});
+
+		test('prunes low priority audio', async () => {
+			const res = await new PromptRenderer(
+				{ modelMaxPromptTokens: 30 } as any,
+				class extends PromptElement {
+					render() {
+						return (
+							<UserMessage>
+								<TextChunk>Transcribe</TextChunk>
+								<Audio priority={1} src="UklGRg==" format="wav" duration={60} />
+							</UserMessage>
+						);
+					}
+				},
+				{},
+				tokenizer
+			).renderRaw();
+			assert.deepStrictEqual(res.messages[0].content, [
+				{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Transcribe' },
+			]);
+		});
+	});
+
+	suite('ToolDefinition', () => {
+		const search: Raw.ToolDefinition = {
+			name: 'search',
+			description: 'Searches the workspace',
+			parameters: {
+				type: 'object',
+				properties: { query: { type: 'string', description: 'What to search for' } },
+				required: ['query'],
+			},
+		};
+		const lint: Raw.ToolDefinition = { name: 'lint', description: 'Runs the linter' };
+
+		const prompt = (
+			<>
+				<UserMessage priority={10}>Earlier question and answer</UserMessage>
+				<ToolDefinition
+					priority={20}
+					name={search.name}
+					description={search.description}
+					schema={search.parameters}
+				/>
+				<ToolDefinition priority={5} name={lint.name} description={lint.description} />
+				<UserMessage priority={30}>What does this project do?</UserMessage>
+			</>
+		);
+
+		test('returns the tools and counts their tokens', async () => {
+			const res = await renderFragmentWithMaxPromptTokens(Infinity, prompt);
+			assert.deepStrictEqual(res.tools, [search, lint]);
+			assert.deepStrictEqual(
+				res.messages.map(m => m.content),
+				[
+					[{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Earlier question and answer' }],
+					[{ type: Raw.ChatCompletionContentPartKind.Text, text: 'What does this project do?' }],
+				]
+			);
+
+			const messageTokens = await renderFragmentWithMaxPromptTokens(
+				Infinity,
+				<>
+					<UserMessage>Earlier question and answer</UserMessage>
+					<UserMessage>What does this project do?</UserMessage>
+				</>
+			);
+			assert.strictEqual(
+				res.tokenCount,
+				messageTokens.tokenCount + tokenizer.countToolTokens([search, lint])
+			);
+		});
+
+		test('charges the shared tool overhead once when sizing', async () => {
+			let budget: number | undefined;
+			class Remaining extends PromptElement {
+				render(_state: void, sizing: PromptSizing) {
+					budget = sizing.tokenBudget;
+					return <UserMessage>Hi</UserMessage>;
+				}
+			}
+
+			await renderFragmentWithMaxPromptTokens(
+				1000,
+				<>
+					<ToolDefinition
+						name={search.name}
+						description={search.description}
+						schema={search.parameters}
+					/>
+					<ToolDefinition name={lint.name} description={lint.description} />
+					<Remaining flexGrow={1} />
+				</>
+			);
+			assert.strictEqual(budget, 1000 - tokenizer.countToolTokens([search, lint]));
+		});
+
+		test('prunes low priority tools before history', async () => {
+			const full = await renderFragmentWithMaxPromptTokens(Infinity, prompt);
+			const res = await renderFragmentWithMaxPromptTokens(full.tokenCount - 1, prompt);
+			assert.deepStrictEqual(res.tools, [search]);
+			assert.strictEqual(res.messages.length, 2);
+		});
+
+		test('counts tools as JSON if the tokenizer cannot', async () => {
+			const charTokenizer: ITokenizer<OutputMode.Raw> = {
+				mode: OutputMode.Raw,
+				tokenLength: part =>
+					part.type === Raw.ChatCompletionContentPartKind.Text ? part.text.length : 0,
+				countMessageTokens: () => 0,
+			};
+			const res = await new PromptRenderer(
+				fakeEndpoint,
+				class extends PromptElement {
+					render() {
+						return <ToolDefinition name={lint.name} description={lint.description} />;
+					}
+				},
+				{},
+				charTokenizer
+			).renderRaw();
+			assert.strictEqual(res.tokenCount, JSON.stringify([lint]).length);
+		});
+
+		test('rejects tools in chat messages', async () => {
+			await assert.rejects(
+				renderFragmentWithMaxPromptTokens(
+					Infinity,
+					<UserMessage>
+						<ToolDefinition name={lint.name} />
+					</UserMessage>
+				),
+				/Tool definitions cannot be inside a ChatMessage/
+			);
+		});
+	});
+
+	suite('function elements', () => {
+		interface GreetingProps extends BasePromptElementProps {
+			name: string;
+		}
+
+		const Greeting = (props: GreetingProps) => (
+			<UserMessage priority={props.priority}>Hello, {props.name}!</UserMessage>
+		);
+
+		test('render like classes', async () => {
+			class GreetingClass extends PromptElement<GreetingProps> {
+				render() {
+					return <UserMessage>Hello, {this.props.name}!</UserMessage>;
+				}
+			}
+
+			const expected = await renderFragmentWithMaxPromptTokens(
+				Infinity,
+				<GreetingClass name="Alice" />
+			);
+			const actual = await renderFragmentWithMaxPromptTokens(Infinity, <Greeting name="Alice" />);
+			assert.deepStrictEqual(actual.messages, expected.messages);
+			assert.strictEqual(actual.tokenCount, expected.tokenCount);
+		});
+
+		test('are told apart from classes that render with arrow functions', async () => {
+			class ArrowGreeting extends PromptElement<GreetingProps> {
+				render = () => <UserMessage>Hello, {this.props.name}!</UserMessage>;
+			}
+
+			const res = await renderFragmentWithMaxPromptTokens(Infinity, <ArrowGreeting name="Dave" />);
+			assert.deepStrictEqual(res.messages, [
+				{
+					role: Raw.ChatRole.User,
+					content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Hello, Dave!' }],
+				},
+			]);
+		});
+
+		test('are passed to createElement as classes', async () => {
+			const created: string[] = [];
+			class Renderer extends PromptRenderer<any, OutputMode.OpenAI> {
+				protected override createElement(element: QueueItem<PromptElementCtor<any, any>, any>) {
+					const instance = new element.ctor(element.props);
+					created.push(element.ctor.name);
+					return instance;
+				}
+			}
+
+			const res = await new Renderer(
+				fakeEndpoint,
+				Greeting,
+				{ name: 'Erin' },
+				tokenizer
+			).renderRaw();
+			assert.deepStrictEqual(res.messages, [
+				{
+					role: Raw.ChatRole.User,
+					content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Hello, Erin!' }],
+				},
+			]);
+			assert.deepStrictEqual(created, ['Greeting', 'UserMessage']);
+		});
+
+		test('receive children and sizing', async () => {
+			const Budget = async (
+				props: PromptElementProps<BasePromptElementProps>,
+				sizing: PromptSizing
+			) => (
+				<SystemMessage>
+					{props.children} {sizing.tokenBudget}
+				</SystemMessage>
+			);
+
+			const res = await renderFragmentWithMaxPromptTokens(
+				1000,
+				<>
+					<Budget>The budget is</Budget>
+					<Greeting name="Bob" priority={1} />
+				</>
+			);
+			assert.deepStrictEqual(
+				res.messages.map(m => m.content),
+				[
+					// The budget is split between the two elements
+					[{ type: Raw.ChatCompletionContentPartKind.Text, text: 'The budget is 500' }],
+					[{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Hello, Bob!' }],
+				]
+			);
+		});
+
+		test('can be rendered as the root element', async () => {
+			const res = await renderWithMaxPromptTokens<GreetingProps>(Infinity, Greeting, {
+				name: 'Carol',
+			});
+			assert.deepStrictEqual(res.messages, [
+				{
+					role: Raw.ChatRole.User,
+					content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Hello, Carol!' }],
+				},
+			]);
+		});
+
+		test('are named in errors', async () => {
+			function Throws(): PromptPiece {
+				throw new Error('test error');
+			}
+
+			await assert.rejects(
+				renderFragmentWithMaxPromptTokens(
+					Infinity,
+					<UserMessage>
+						<Throws />
+					</UserMessage>
+				),
+				{ message: 'test error (at tsx element <anonymous> > UserMessage > Throws)' }
+			);
+		});
+	});
+
+	suite('renderStream', () => {
+		class Context extends PromptElement<BasePromptElementProps, string> {
+			async prepare() {
+				return 'some context';
+			}
+
+			render(state: string) {
+				return <UserMessage priority={1}>{state}</UserMessage>;
+			}
+		}
+
+		class Prompt extends PromptElement {
+			render() {
+				return (
+					<>
+						<SystemMessage priority={2}>You are a helpful assistant.</SystemMessage>
+						<Context flexGrow={1} />
+					</>
+				);
+			}
+		}
+
+		async function collect(maxPromptTokens: number) {
+			const endpoint: any = { modelMaxPromptTokens: maxPromptTokens };
+			const events: PromptRenderEvent<OutputMode.OpenAI>[] = [];
+			const renderer = new PromptRenderer(endpoint, Prompt, {}, tokenizer);
+			for await (const event of renderer.renderStream()) {
+				events.push(event);
+			}
+			return events;
+		}
+
+		test('yields progress and then the result', async () => {
+			const events = await collect(1000);
+			assert.deepStrictEqual(
+				events.map(e => (e.type === 'elementPrepared' ? `${e.type} ${e.name}` : e.type)),
+				[
+					'flexGroupStart',
+					'elementPrepared Prompt',
+					'elementRendered',
+					'flexGroupStart',
+					'elementPrepared SystemMessage',
+					'elementRendered',
+					'flexGroupStart',
+					'elementPrepared Context',
+					'elementRendered',
+					'flexGroupStart',
+					'elementPrepared UserMessage',
+					'elementRendered',
+					'result',
+				]
+			);
+
+			const last = events[events.length - 1];
+			assert.ok(last.type === 'result');
+			const expected = await new PromptRenderer(
+				{ modelMaxPromptTokens: 1000 } as any,
+				Prompt,
+				{},
+				tokenizer
+			).render();
+			assert.deepStrictEqual(last.result.messages, expected.messages);
+			assert.strictEqual(last.result.tokenCount, expected.tokenCount);
+		});
+
+		test('yields pruning rounds', async () => {
+			const events = await collect(12);
+			const rounds = events.filter(e => e.type === 'pruneRound');
+			assert.strictEqual(rounds.length, 1);
+			assert.ok(rounds[0].type === 'pruneRound' && rounds[0].removed > 0);
+			assert.ok(rounds[0].tokenCount <= 12);
+		});
+
+		test('throws errors from the render', async () => {
+			class Throws extends PromptElement {
+				render(): never {
+					throw new Error('test error');
+				}
+			}
+
+			const stream = new PromptRenderer(fakeEndpoint, Throws, {}, tokenizer).renderStream();
+			await assert.rejects(async () => {
+				for await (const _ of stream) {
+					// consume
+				}
+			}, /test error/);
+		});
 	});
 
 	suite('IfEmpty', () => {
@@ -3264,4 +3905,161 @@ suite('PromptRenderer', () => {
 			]);
 		});
 	});
+
+	suite('thinking', () => {
+		class CharTokenizer implements ITokenizer<OutputMode.Raw> {
+			readonly mode = OutputMode.Raw;
+
+			tokenLength(part: Raw.ChatCompletionContentPart): number {
+				return part.type === Raw.ChatCompletionContentPartKind.Text ||
+					part.type === Raw.ChatCompletionContentPartKind.Thinking
+					? part.text.length
+					: 0;
+			}
+
+			countMessageTokens(message: Raw.ChatMessage): number {
+				return message.content.reduce((sum, part) => sum + this.tokenLength(part), 0);
+			}
+		}
+
+		async function render(maxPromptTokens: number, piece: PromptPieceChild) {
+			const inst = new PromptRenderer(
+				{
+					modelMaxPromptTokens: maxPromptTokens,
+				} satisfies Partial<IChatEndpointInfo> as IChatEndpointInfo,
+				class extends PromptElement {
+					render() {
+						return <>{piece}</>;
+					}
+				},
+				{},
+				new CharTokenizer()
+			);
+			return inst.renderRaw(undefined, undefined);
+		}
+
+		test('renders reasoning in place and counts its tokens', async () => {
+			const res = await render(
+				100,
+				<AssistantMessage>
+					<thinking text="Consider it" signature="sig" />
+					<TextChunk>Answer</TextChunk>
+				</AssistantMessage>
+			);
+			assert.deepStrictEqual(res.messages, [
+				{
+					role: Raw.ChatRole.Assistant,
+					content: [
+						{
+							type: Raw.ChatCompletionContentPartKind.Thinking,
+							text: 'Consider it',
+							signature: 'sig',
+						},
+						{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Answer' },
+					],
+				},
+			]);
+			assert.strictEqual(res.tokenCount, 17);
+		});
+
+		test('prunes by priority', async () => {
+			const res = await render(
+				10,
+				<AssistantMessage>
+					<thinking text="Consider it" priority={1} />
+					<TextChunk priority={2}>Answer</TextChunk>
+				</AssistantMessage>
+			);
+			assert.deepStrictEqual(res.messages, [
+				{
+					role: Raw.ChatRole.Assistant,
+					content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Answer' }],
+				},
+			]);
+		});
+
+		test('counts the text of reasoning with tokenizers that do not measure it', async () => {
+			const renderWith = async (piece: PromptPieceChild, tokenizer: ITokenizer) =>
+				new PromptRenderer(
+					{ modelMaxPromptTokens: 100 } satisfies Partial<IChatEndpointInfo> as IChatEndpointInfo,
+					class extends PromptElement {
+						render() {
+							return <AssistantMessage>{piece}Answer</AssistantMessage>;
+						}
+					},
+					{},
+					tokenizer
+				).renderRaw();
+			const difference = async (tokenizer: ITokenizer) =>
+				(await renderWith(<thinking text="Consider it" signature={'a'.repeat(1000)} />, tokenizer))
+					.tokenCount - (await renderWith(undefined, tokenizer)).tokenCount;
+
+			const textTokenizer: ITokenizer<OutputMode.Raw> = {
+				mode: OutputMode.Raw,
+				tokenLength: part =>
+					part.type === Raw.ChatCompletionContentPartKind.Text ? part.text.length : 0,
+				countMessageTokens: () => 0,
+			};
+			assert.strictEqual(await difference(textTokenizer), 'Consider it'.length);
+			// OpenAI chat completions drop reasoning
+			assert.strictEqual(await difference(tokenizer), 0);
+		});
+
+		test('rejects children', async () => {
+			await assert.rejects(
+				render(
+					100,
+					<AssistantMessage>
+						<thinking text="Consider it">nope</thinking>
+					</AssistantMessage>
+				),
+				/must not have children/
+			);
+		});
+	});
+
+	suite('prompt overhead', () => {
+		const charTokenizer: ITokenizer<OutputMode.Raw> = {
+			mode: OutputMode.Raw,
+			tokenLength: part =>
+				part.type === Raw.ChatCompletionContentPartKind.Text ? part.text.length : 0,
+			countMessageTokens: () => 0,
+		};
+		const tokenizer = new ChatTemplateTokenizer(
+			{
+				bos: '<s>',
+				messages: { user: '<u>{content}</u>', assistant: '{content}' },
+				generationPrompt: 'Go:',
+				specialTokens: ['<s>', '<u>', '</u>'],
+			},
+			charTokenizer
+		);
+
+		test('reserves the tokenizer overhead from the budget', async () => {
+			const res = await new PromptRenderer(
+				{ modelMaxPromptTokens: 14 } satisfies Partial<IChatEndpointInfo> as IChatEndpointInfo,
+				class extends PromptElement {
+					render() {
+						return (
+							<UserMessage>
+								<TextChunk priority={2}>aaaa</TextChunk>
+								<TextChunk priority={1}>bbbb</TextChunk>
+							</UserMessage>
+						);
+					}
+				},
+				{},
+				tokenizer
+			).renderRaw();
+
+			// The message alone would fit, but not with `<s>` and `Go:`
+			assert.deepStrictEqual(res.messages, [
+				{
+					role: Raw.ChatRole.User,
+					content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'aaaa' }],
+				},
+			]);
+			assert.strictEqual(res.tokenCount, 10);
+		});
+	});
 });
@@ -0,0 +1,71 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { BreakOnPreset, getBreakPoints } from '../textBreaks';
+
+suite('textBreaks', () => {
+	/** Gets the text before each break point, and its rank. */
+	const heads = (breakOn: BreakOnPreset, text: string) =>
+		getBreakPoints({ preset: breakOn }, text).map(b => [text.slice(0, b.start), b.rank]);
+
+	test('line', () => {
+		assert.deepStrictEqual(heads('line', 'a\nb\r\nc'), [
+			['a', 0],
+			['a\nb', 0],
+		]);
+	});
+
+	test('paragraph', () => {
+		assert.deepStrictEqual(heads('paragraph', 'a\nb\n\n  \nc\n\nd'), [
+			['a\nb', 0],
+			['a\nb\n\n  \nc', 0],
+		]);
+	});
+
+	test('sentence', () => {
+		assert.deepStrictEqual(heads('sentence', 'One. "Two?" Three\nfour!\n\nFive'), [
+			['One.', 0],
+			['One. "Two?"', 0],
+			['One. "Two?" Three\nfour!', 0],
+		]);
+	});
+
+	test('markdown-section', () => {
+		const text = '# A\n\nintro\n\n## B\n\n```md\n\n# not a heading\n```\n\n### C';
+		assert.deepStrictEqual(heads('markdown-section', text), [
+			['# A', 6],
+			['# A\n\nintro', 1],
+			['# A\n\nintro\n\n## B', 6],
+			['# A\n\nintro\n\n## B\n\n```md\n\n# not a heading\n```', 2],
+		]);
+	});
+
+	test('code-block', () => {
+		const text = 'function a() {\n\treturn 1;\n\n}\n\nfunction b() {}';
+		assert.deepStrictEqual(
+			heads('code-block', text).sort((a, b) => (a[1] as number) - (b[1] as number)),
+			[
+				['function a() {\n\treturn 1;\n\n}', 0],
+				['function a() {\n\treturn 1;', 1],
+				['function a() {', 2],
+				['function a() {\n\treturn 1;', 2],
+				['function a() {\n\treturn 1;\n', 2],
+				['function a() {\n\treturn 1;\n\n}', 2],
+				['function a() {\n\treturn 1;\n\n}\n', 2],
+			]
+		);
+	});
+
+	test('treats strings literally', () => {
+		assert.deepStrictEqual(getBreakPoints('line', 'a\nline b'), [{ start: 2, end: 6, rank: 0 }]);
+	});
+
+	test('rejects unknown presets', () => {
+		assert.throws(
+			() => getBreakPoints({ preset: 'lines' as BreakOnPreset }, 'a\nb'),
+			/Unknown `breakOn` preset: lines/
+		);
+	});
+});
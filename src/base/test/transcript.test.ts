@@ -0,0 +1,146 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { OutputMode, Raw } from '../output/mode';
+import { MetadataMap, RenderPromptResult } from '../promptRenderer';
+import { ITokenizer } from '../tokenizer/tokenizer';
+import { formatTranscript } from '../transcript';
+
+suite('formatTranscript', () => {
+	// Counts one token per content part so the expectations stay readable
+	const tokenizer: ITokenizer<OutputMode.Raw> = {
+		mode: OutputMode.Raw,
+		tokenLength: () => 1,
+		countMessageTokens: message => message.content.length,
+	};
+
+	const result: RenderPromptResult = {
+		messages: [
+			{
+				role: Raw.ChatRole.System,
+				content: [
+					{ type: Raw.ChatCompletionContentPartKind.Text, text: 'You are helpful.' },
+					{ type: Raw.ChatCompletionContentPartKind.CacheBreakpoint },
+				],
+			},
+			{
+				role: Raw.ChatRole.User,
+				name: 'alice',
+				content: [
+					{ type: Raw.ChatCompletionContentPartKind.Text, text: 'What is this?\n' },
+					{
+						type: Raw.ChatCompletionContentPartKind.Image,
+						imageUrl: { url: 'data:image/png;base64,iVBORw0KGgo=', detail: 'low' },
+					},
+					{ type: Raw.ChatCompletionContentPartKind.Opaque, value: {}, tokenUsage: 5 },
+				],
+			},
+			{
+				role: Raw.ChatRole.Assistant,
+				content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'Let me look.' }],
+				toolCalls: [
+					{ id: 'call_1', type: 'function', function: { name: 'lookup', arguments: '{"q":1}' } },
+				],
+			},
+			{
+				role: Raw.ChatRole.Tool,
+				toolCallId: 'call_1',
+				content: [{ type: Raw.ChatCompletionContentPartKind.Text, text: 'A cat.' }],
+			},
+		],
+		tokenCount: 42,
+		hasIgnoredFiles: false,
+		metadata: MetadataMap.empty,
+		references: [],
+		omittedReferences: [],
+		tools: [],
+	};
+
+	test('formats markdown', async () => {
+		assert.strictEqual(
+			await formatTranscript(result, tokenizer),
+			[
+				'### system · 2 tokens',
+				'',
+				'```',
+				'You are helpful.[cache breakpoint]',
+				'```',
+				'',
+				'### user (alice) · 3 tokens',
+				'',
+				'```',
+				'What is this?',
+				'[image: inline image/png, low detail][opaque: 5 tokens]',
+				'```',
+				'',
+				'### assistant · 1 token',
+				'',
+				'```',
+				'Let me look.',
+				'```',
+				'',
+				'Tool call lookup (call_1):',
+				'```json',
+				'{',
+				'  "q": 1',
+				'}',
+				'```',
+				'',
+				'### tool for call_1 · 1 token',
+				'',
+				'```',
+				'A cat.',
+				'```',
+				'',
+				'_Total: 42 tokens_',
+				'',
+			].join('\n')
+		);
+	});
+
+	test('fences content that contains Markdown', async () => {
+		const transcript = await formatTranscript(
+			{
+				...result,
+				messages: [
+					{
+						role: Raw.ChatRole.User,
+						content: [
+							{
+								type: Raw.ChatCompletionContentPartKind.Text,
+								text: '# Not a heading\n````ts\nconst a = 1;\n````',
+							},
+						],
+					},
+				],
+			},
+			tokenizer
+		);
+		assert.strictEqual(
+			transcript,
+			[
+				'### user · 1 token',
+				'',
+				'`````',
+				'# Not a heading',
+				'````ts',
+				'const a = 1;',
+				'````',
+				'`````',
+				'',
+				'_Total: 42 tokens_',
+				'',
+			].join('\n')
+		);
+	});
+
+	test('formats plain text', async () => {
+		const transcript = await formatTranscript(result, tokenizer, 'text');
+		assert.ok(transcript.startsWith('=== system · 2 tokens ===\n\nYou are helpful.'));
+		assert.ok(transcript.includes('Tool call lookup (call_1):\n{\n  "q": 1\n}\n'));
+		assert.ok(!transcript.includes('```'));
+		assert.ok(transcript.endsWith('Total: 42 tokens\n'));
+	});
+});
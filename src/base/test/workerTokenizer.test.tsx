@@ -0,0 +1,126 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import * as assert from 'assert';
+import { OpenAI, OutputMode, Raw } from '../output/mode';
+import { PromptElement } from '../promptElement';
+import { SystemMessage, ToolDefinition, UserMessage } from '../promptElements';
+import { PromptRenderer } from '../promptRenderer';
+import { CancellationTokenSource } from '../standalone-types';
+import { Cl100KBaseTokenizer } from '../tokenizer/cl100kBaseTokenizer';
+import { WorkerTokenizer } from '../tokenizer/workerTokenizer';
+
+suite('WorkerTokenizer', function () {
+	this.timeout(20_000);
+
+	const local = new Cl100KBaseTokenizer();
+	let tokenizer: WorkerTokenizer<OutputMode.OpenAI>;
+
+	setup(() => {
+		tokenizer = new WorkerTokenizer({
+			module: require.resolve('../tokenizer/cl100kBaseTokenizer'),
+			exportName: 'Cl100KBaseTokenizer',
+			mode: OutputMode.OpenAI,
+			poolSize: 2,
+			// Workers don't inherit the TypeScript loader
+			execArgv: ['--require', 'tsx/cjs'],
+		});
+	});
+
+	teardown(() => {
+		tokenizer.dispose();
+	});
+
+	test('measures like the tokenizer it runs', async () => {
+		const parts: Raw.ChatCompletionContentPart[] = [
+			'hello world',
+			'The quick brown fox jumps over the lazy dog.\n'.repeat(100),
+			'',
+		].map(text => ({ type: Raw.ChatCompletionContentPartKind.Text, text }));
+		const message: OpenAI.ChatMessage = {
+			role: OpenAI.ChatRole.User,
+			content: 'What is the weather in Boston?',
+			name: 'alice',
+		};
+		const tools: Raw.ToolDefinition[] = [{ name: 'get_weather', description: 'Gets the weather' }];
+
+		assert.deepStrictEqual(
+			await Promise.all([
+				...parts.map(p => tokenizer.tokenLength(p)),
+				tokenizer.countMessageTokens(message),
+				tokenizer.countToolTokens(tools),
+				tokenizer.countPromptOverhead(),
+			]),
+			[
+				...parts.map(p => local.tokenLength(p)),
+				local.countMessageTokens(message),
+				local.countToolTokens(tools),
+				0,
+			]
+		);
+	});
+
+	test('renders prompts', async () => {
+		class Prompt extends PromptElement {
+			render() {
+				return (
+					<>
+						<SystemMessage>You are a helpful assistant.</SystemMessage>
+						<ToolDefinition name="search" description="Searches the workspace" />
+						<UserMessage>Where is the tokenizer defined?</UserMessage>
+					</>
+				);
+			}
+		}
+
+		const endpoint: any = { modelMaxPromptTokens: 1000 };
+		const expected = await new PromptRenderer(endpoint, Prompt, {}, local).render();
+		const actual = await new PromptRenderer(endpoint, Prompt, {}, tokenizer).render();
+		assert.deepStrictEqual(actual.messages, expected.messages);
+		assert.deepStrictEqual(actual.tools, expected.tools);
+		assert.strictEqual(actual.tokenCount, expected.tokenCount);
+	});
+
+	test('rejects pending requests when disposed', async () => {
+		const pending = tokenizer.tokenLength({
+			type: Raw.ChatCompletionContentPartKind.Text,
+			text: 'hello',
+		});
+		tokenizer.dispose();
+		await assert.rejects(pending, /disposed/);
+	});
+
+	test('stops waiting for cancelled requests', async () => {
+		const part = (text: string): Raw.ChatCompletionContentPart => ({
+			type: Raw.ChatCompletionContentPartKind.Text,
+			text,
+		});
+		const cts = new CancellationTokenSource();
+		const cancelled = tokenizer.tokenLength(part('hello'), cts.token);
+		const other = tokenizer.tokenLength(part('hello world'));
+		cts.cancel();
+
+		await assert.rejects(cancelled, /Canceled/);
+		await assert.rejects(tokenizer.tokenLength(part('hello'), cts.token), /Canceled/);
+		assert.strictEqual(await other, local.tokenLength(part('hello world')));
+	});
+
+	test('reports tokenizers that fail to load', async () => {
+		const broken = new WorkerTokenizer({
+			module: require.resolve('../tokenizer/cl100kBaseTokenizer'),
+			exportName: 'DoesNotExist',
+			mode: OutputMode.OpenAI,
+			execArgv: ['--require', 'tsx/cjs'],
+		});
+		try {
+			await assert.rejects(
+				Promise.resolve(
+					broken.tokenLength({ type: Raw.ChatCompletionContentPartKind.Text, text: 'hello' })
+				)
+			);
+		} finally {
+			broken.dispose();
+		}
+	});
+});
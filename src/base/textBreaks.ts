@@ -0,0 +1,145 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+/**
+ * Named strategies for where a {@link TextChunk} may cut its text, given as
+ * `breakOn={{ preset: 'line' }}`:
+ *
+ * - `line`: at line breaks.
+ * - `paragraph`: at blank lines.
+ * - `sentence`: after the end of a sentence, or at blank lines.
+ * - `markdown-section`: before Markdown headings, preferring higher-level
+ *   headings, then at blank lines.
+ * - `code-block`: between lines of source code, preferring blank lines before
+ *   top-level declarations, then other blank lines.
+ *
+ * Except for `line` and `code-block`, text is never cut inside a fenced code
+ * block.
+ */
+export type BreakOnPreset = 'line' | 'paragraph' | 'sentence' | 'markdown-section' | 'code-block';
+
+/**
+ * A place where text can be cut. The text between `start` and `end`, such as
+ * whitespace, is dropped when it's cut there. Break points with a lower `rank`
+ * are better places to cut.
+ */
+export interface BreakPoint {
+	start: number;
+	end: number;
+	rank: number;
+}
+
+const LINE_RE = /\r?\n/g;
+const BLANK_LINES_RE = /\r?\n(?:[ \t]*\r?\n)+/g;
+const SENTENCE_END_RE = /(?<=[.!?]["')\]]*)\s+/g;
+const HEADING_RE = /\r?\n(?:[ \t]*\r?\n)*(?=(#{1,6})[ \t])/g;
+const TOP_LEVEL_RE = /\r?\n(?:[ \t]*\r?\n)+(?=[^\s)}\]])/g;
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})/gm;
+
+const presets: { [K in BreakOnPreset]: (text: string) => BreakPoint[] } = {
+	line: text => matchAll(LINE_RE, text, 0),
+	paragraph: text => outsideFences(text, matchAll(BLANK_LINES_RE, text, 0)),
+	sentence: text =>
+		outsideFences(text, [
+			...matchAll(SENTENCE_END_RE, text, 0),
+			...matchAll(BLANK_LINES_RE, text, 0),
+		]),
+	'markdown-section': text =>
+		outsideFences(text, [
+			...matchAll(HEADING_RE, text, match => match[1].length - 1),
+			...matchAll(BLANK_LINES_RE, text, 6),
+		]),
+	'code-block': text => [
+		...matchAll(TOP_LEVEL_RE, text, 0),
+		...matchAll(BLANK_LINES_RE, text, 1),
+		...matchAll(LINE_RE, text, 2),
+	],
+};
+
+/**
+ * Gets the places where `breakOn` allows the text to be cut, ordered by their
+ * start. Strings are always matched literally, even if they're the name of a
+ * preset.
+ */
+export function getBreakPoints(
+	breakOn: string | RegExp | { preset: BreakOnPreset },
+	text: string
+): BreakPoint[] {
+	if (typeof breakOn === 'object' && 'preset' in breakOn) {
+		if (!Object.hasOwn(presets, breakOn.preset)) {
+			throw new Error(`Unknown \`breakOn\` preset: ${breakOn.preset}`);
+		}
+		// Keep the best rank of break points that were found more than once
+		return presets[breakOn.preset](text)
+			.sort((a, b) => a.start - b.start || a.end - b.end || a.rank - b.rank)
+			.filter((b, i, all) => i === 0 || b.start !== all[i - 1].start || b.end !== all[i - 1].end);
+	}
+
+	if (typeof breakOn === 'string') {
+		const breaks: BreakPoint[] = [];
+		for (
+			let index = text.indexOf(breakOn);
+			index !== -1;
+			index = text.indexOf(breakOn, index + Math.max(1, breakOn.length))
+		) {
+			breaks.push({ start: index, end: index + breakOn.length, rank: 0 });
+		}
+		return breaks;
+	}
+
+	if (!breakOn.global) {
+		throw new Error(`\`breakOn\` expression must have the global flag set (got ${breakOn})`);
+	}
+
+	return matchAll(breakOn, text, 0);
+}
+
+function matchAll(
+	re: RegExp,
+	text: string,
+	rank: number | ((match: RegExpExecArray) => number)
+): BreakPoint[] {
+	const breaks: BreakPoint[] = [];
+	re.lastIndex = 0;
+	for (let match = re.exec(text); match; match = re.exec(text)) {
+		breaks.push({
+			start: match.index,
+			end: match.index + match[0].length,
+			rank: typeof rank === 'number' ? rank : rank(match),
+		});
+		if (!match[0]) {
+			re.lastIndex++;
+		}
+	}
+	return breaks;
+}
+
+/** Removes break points inside fenced Markdown code blocks. */
+function outsideFences(text: string, breaks: BreakPoint[]): BreakPoint[] {
+	const fences: { start: number; end: number }[] = [];
+	let open: { start: number; marker: string } | undefined;
+	FENCE_RE.lastIndex = 0;
+	for (let match = FENCE_RE.exec(text); match; match = FENCE_RE.exec(text)) {
+		const marker = match[1];
+		if (!open) {
+			open = { start: match.index, marker };
+		} else if (marker[0] === open.marker[0] && marker.length >= open.marker.length) {
+			let lineEnd = text.indexOf('\n', match.index);
+			if (lineEnd === -1) {
+				lineEnd = text.length;
+			} else if (text[lineEnd - 1] === '\r') {
+				lineEnd--;
+			}
+			fences.push({ start: open.start, end: lineEnd });
+			open = undefined;
+		}
+	}
+	if (open) {
+		fences.push({ start: open.start, end: text.length });
+	}
+
+	return breaks.filter(
+		({ start, end }) => !fences.some(fence => start < fence.end && end > fence.start)
+	);
+}
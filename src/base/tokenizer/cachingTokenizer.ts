@@ -0,0 +1,202 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { CancellationToken } from '../standalone-types';
+import { ModeToChatMessageType, Raw } from '../output/mode';
+import { ITokenizer } from './tokenizer';
+
+export interface CachingTokenizerOptions {
+	/**
+	 * Maximum number of lengths to remember. Defaults to 10,000. Ignored if a
+	 * {@link cache} is given.
+	 */
+	maxSize?: number;
+
+	/**
+	 * Cache to use, which can be shared with other {@link CachingTokenizer}s
+	 * that wrap the same kind of tokenizer.
+	 */
+	cache?: TokenLengthCache;
+}
+
+/**
+ * A least-recently-used cache of token lengths, keyed by a hash of the
+ * measured content.
+ */
+export class TokenLengthCache {
+	private readonly _entries = new Map<string, number | Promise<number>>();
+
+	constructor(public readonly maxSize = 10_000) {}
+
+	public get size() {
+		return this._entries.size;
+	}
+
+	public get(key: string): number | Promise<number> | undefined {
+		const value = this._entries.get(key);
+		if (value !== undefined) {
+			// Move the entry to the end of the map, where the most recent entries are
+			this._entries.delete(key);
+			this._entries.set(key, value);
+		}
+		return value;
+	}
+
+	public set(key: string, value: number | Promise<number>): void {
+		this._entries.delete(key);
+		this._entries.set(key, value);
+		if (this._entries.size > this.maxSize) {
+			this._entries.delete(this._entries.keys().next().value!);
+		}
+	}
+
+	public delete(key: string): void {
+		this._entries.delete(key);
+	}
+
+	public clear(): void {
+		this._entries.clear();
+	}
+}
+
+/**
+ * Wraps a tokenizer to remember the lengths of content it has measured. Parts
+ * are cached in a {@link TokenLengthCache} by a hash of their content, so
+ * that large text isn't kept in memory.
+ *
+ * The same instance can be passed to several {@link PromptRenderer}s to reuse
+ * lengths between renders, for example when the same files are included in
+ * each turn of a conversation.
+ */
+export class CachingTokenizer<M extends keyof ModeToChatMessageType = keyof ModeToChatMessageType>
+	implements ITokenizer<M>
+{
+	public readonly mode: M;
+	public readonly cache: TokenLengthCache;
+	public readonly countToolTokens?: (
+		tools: readonly Raw.ToolDefinition[]
+	) => Promise<number> | number;
+	public readonly tokenLengthBatch?: (
+		parts: readonly Raw.ChatCompletionContentPart[],
+		token?: CancellationToken
+	) => Promise<number[]>;
+	public readonly countPromptOverhead?: (token?: CancellationToken) => Promise<number> | number;
+
+	constructor(private readonly _tokenizer: ITokenizer<M>, options: CachingTokenizerOptions = {}) {
+		this.mode = _tokenizer.mode;
+		this.cache = options.cache ?? new TokenLengthCache(options.maxSize);
+		if (_tokenizer.countToolTokens) {
+			this.countToolTokens = tools => _tokenizer.countToolTokens!(tools);
+		}
+		if (_tokenizer.tokenLengthBatch) {
+			this.tokenLengthBatch = (parts, token) => this._tokenLengthBatch(parts, token);
+		}
+		if (_tokenizer.countPromptOverhead) {
+			this.countPromptOverhead = token => _tokenizer.countPromptOverhead!(token);
+		}
+	}
+
+	tokenLength(
+		part: Raw.ChatCompletionContentPart,
+		token?: CancellationToken
+	): Promise<number> | number {
+		return this._lookup(part, () => this._tokenizer.tokenLength(part, token));
+	}
+
+	countMessageTokens(message: ModeToChatMessageType[M]): Promise<number> | number {
+		return this._tokenizer.countMessageTokens(message);
+	}
+
+	/**
+	 * Measures the parts that aren't cached in a single batch with the wrapped
+	 * tokenizer.
+	 */
+	private _tokenLengthBatch(
+		parts: readonly Raw.ChatCompletionContentPart[],
+		token?: CancellationToken
+	): Promise<number[]> {
+		// Misses are cached as pending until the batch is measured, so that
+		// repeated parts in the batch are only measured once
+		const misses: Raw.ChatCompletionContentPart[] = [];
+		let resolve!: (lengths: number[]) => void;
+		let reject!: (err: unknown) => void;
+		const measured = new Promise<number[]>((res, rej) => {
+			resolve = res;
+			reject = rej;
+		});
+		const lengths = parts.map(part =>
+			this._lookup(part, () => {
+				const index = misses.push(part) - 1;
+				return measured.then(lengths => lengths[index]);
+			})
+		);
+
+		if (misses.length) {
+			Promise.resolve()
+				.then(() => this._tokenizer.tokenLengthBatch!(misses, token))
+				.then(resolve, reject);
+		}
+		return Promise.all(lengths);
+	}
+
+	/**
+	 * Returns a cached length, or measures and caches it. Pending measurements
+	 * are cached too so that concurrent requests only measure once, but are
+	 * forgotten if they fail, for example due to cancellation.
+	 */
+	private _lookup(
+		part: Raw.ChatCompletionContentPart,
+		measure: () => number | Promise<number>
+	): number | Promise<number> {
+		const key = cacheKey(part);
+		const existing = this.cache.get(key);
+		if (existing !== undefined) {
+			return existing;
+		}
+
+		const value = measure();
+		if (typeof value === 'number') {
+			this.cache.set(key, value);
+			return value;
+		}
+
+		const pending = value.then(
+			length => {
+				this.cache.set(key, length);
+				return length;
+			},
+			err => {
+				this.cache.delete(key);
+				throw err;
+			}
+		);
+		this.cache.set(key, pending);
+		return pending;
+	}
+}
+
+function cacheKey(part: Raw.ChatCompletionContentPart): string {
+	const content =
+		part.type === Raw.ChatCompletionContentPartKind.Text ? part.text : JSON.stringify(part);
+	return `${part.type}:${content.length}:${hashString(content)}`;
+}
+
+/**
+ * The 53-bit cyrb53 hash. Keys also include the content's length, which
+ * makes collisions between the strings of a render very unlikely.
+ */
+function hashString(str: string): string {
+	let h1 = 0xdeadbeef;
+	let h2 = 0x41c6ce57;
+	for (let i = 0; i < str.length; i++) {
+		const ch = str.charCodeAt(i);
+		h1 = Math.imul(h1 ^ ch, 2654435761);
+		h2 = Math.imul(h2 ^ ch, 1597334677);
+	}
+	h1 = Math.imul(h1 ^ (h1 >>> 16), 2246822507);
+	h1 ^= Math.imul(h2 ^ (h2 >>> 13), 3266489909);
+	h2 = Math.imul(h2 ^ (h2 >>> 16), 2246822507);
+	h2 ^= Math.imul(h1 ^ (h1 >>> 13), 3266489909);
+	return (4294967296 * (2097151 & h2) + (h1 >>> 0)).toString(36);
+}
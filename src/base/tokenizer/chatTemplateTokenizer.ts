@@ -0,0 +1,79 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { CancellationToken } from '../standalone-types';
+import { formatChatTemplateMessage } from '../output/chatTemplateConvert';
+import { ChatTemplate, OutputMode, Raw } from '../output/mode';
+import { ITokenizer } from './tokenizer';
+
+/**
+ * A tokenizer for prompts flattened with a {@link ChatTemplate.Template}. Text
+ * is measured with the given text tokenizer, and each of the template's
+ * special tokens counts as a single token, as it does in the local model's
+ * vocabulary.
+ */
+export class ChatTemplateTokenizer implements ITokenizer<OutputMode.ChatTemplate> {
+	public readonly mode = OutputMode.ChatTemplate;
+
+	private readonly _specialTokenRe: RegExp | undefined;
+
+	constructor(
+		public readonly template: ChatTemplate.Template,
+		private readonly _textTokenizer: ITokenizer
+	) {
+		if (template.specialTokens.length) {
+			const alternatives = [...template.specialTokens]
+				// Prefer the longest match when tokens share a prefix
+				.sort((a, b) => b.length - a.length)
+				.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+			this._specialTokenRe = new RegExp(alternatives.join('|'), 'g');
+		}
+	}
+
+	tokenLength(
+		part: Raw.ChatCompletionContentPart,
+		token?: CancellationToken
+	): Promise<number> | number {
+		// Chat templates only render text, other parts are dropped
+		return part.type === Raw.ChatCompletionContentPartKind.Text
+			? this._textTokenizer.tokenLength(part, token)
+			: 0;
+	}
+
+	countMessageTokens(message: ChatTemplate.ChatMessage): Promise<number> {
+		return this.countTemplatedTokens(formatChatTemplateMessage(this.template, message));
+	}
+
+	/**
+	 * Counts the tokens the template adds once per prompt, from its `bos` and
+	 * `generationPrompt`. These are not included in any message, so the
+	 * renderer reserves them from the endpoint's `modelMaxPromptTokens`.
+	 */
+	countPromptOverhead(): Promise<number> {
+		return this.countTemplatedTokens(
+			(this.template.bos ?? '') + (this.template.generationPrompt ?? '')
+		);
+	}
+
+	private async countTemplatedTokens(text: string): Promise<number> {
+		if (!this._specialTokenRe) {
+			return this.countText(text);
+		}
+
+		let total = 0;
+		let lastIndex = 0;
+		for (const match of text.matchAll(this._specialTokenRe)) {
+			total += 1 + (await this.countText(text.slice(lastIndex, match.index)));
+			lastIndex = match.index! + match[0].length;
+		}
+
+		return total + (await this.countText(text.slice(lastIndex)));
+	}
+
+	private async countText(text: string): Promise<number> {
+		return text
+			? this._textTokenizer.tokenLength({ type: Raw.ChatCompletionContentPartKind.Text, text })
+			: 0;
+	}
+}
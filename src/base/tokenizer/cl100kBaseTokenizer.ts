@@ -9,6 +9,7 @@ import {
 	TikTokenizer,
 } from '@microsoft/tiktokenizer';
 import { join } from 'path';
+import { estimateImageTokens } from './imageTokens';
 import { ITokenizer } from './tokenizer';
 import { OutputMode, Raw, OpenAI } from '../output/mode';
 
@@ -25,6 +26,21 @@ export class Cl100KBaseTokenizer implements ITokenizer<OutputMode.OpenAI> {
 
 	private readonly baseTokensPerMessage = OpenAI.BaseTokensPerMessage;
 	private readonly baseTokensPerName = OpenAI.BaseTokensPerName;
+	private readonly baseTokensPerToolCall = OpenAI.BaseTokensPerToolCall;
+	private readonly baseTokensPerToolCallId = OpenAI.BaseTokensPerToolCallId;
+
+	/**
+	 * Overheads for tool definitions, see {@link countToolTokens}. Only the
+	 * per-function overhead differs between model families.
+	 */
+	protected readonly toolDefinitionTokens = {
+		perFunction: 10,
+		perParameters: 3,
+		perParameter: 3,
+		perEnum: -3,
+		perEnumValue: 3,
+		end: 12,
+	};
 
 	constructor() {}
 
@@ -48,6 +64,10 @@ export class Cl100KBaseTokenizer implements ITokenizer<OutputMode.OpenAI> {
 	tokenLength(part: Raw.ChatCompletionContentPart): number {
 		if (part.type === Raw.ChatCompletionContentPartKind.Text) {
 			return part.text ? this.tokenize(part.text).length : 0;
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+			return estimateImageTokens(part.imageUrl);
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Document) {
+			return this.documentTokenLength(part.document.url);
 		}
 
 		return 0;
@@ -64,6 +84,45 @@ export class Cl100KBaseTokenizer implements ITokenizer<OutputMode.OpenAI> {
 		return this.baseTokensPerMessage + this.countObjectTokens(message);
 	}
 
+	/**
+	 * Counts tokens for the definitions of the tools available in a completion
+	 * request. These are rendered into the prompt ahead of the messages.
+	 *
+	 * Follows https://github.com/openai/openai-cookbook/blob/main/examples/How_to_count_tokens_with_tiktoken.ipynb
+	 */
+	countToolTokens(tools: readonly Raw.ToolDefinition[]): number {
+		if (!tools.length) {
+			return 0;
+		}
+
+		const overhead = this.toolDefinitionTokens;
+		let numTokens = 0;
+		for (const fn of tools) {
+			numTokens += overhead.perFunction;
+			numTokens += this.tokenize(`${fn.name}:${trimPeriod(fn.description ?? '')}`).length;
+
+			const properties = Object.entries(asObject(fn.parameters?.properties));
+			if (properties.length) {
+				numTokens += overhead.perParameters;
+			}
+			for (const [name, value] of properties) {
+				const property = asObject(value);
+				numTokens += overhead.perParameter;
+				if (Array.isArray(property.enum)) {
+					numTokens += overhead.perEnum;
+					for (const enumValue of property.enum) {
+						numTokens += overhead.perEnumValue + this.tokenize(String(enumValue)).length;
+					}
+				}
+				const type = typeof property.type === 'string' ? property.type : '';
+				const description = typeof property.description === 'string' ? property.description : '';
+				numTokens += this.tokenize(`${name}:${type}:${trimPeriod(description)}`).length;
+			}
+		}
+
+		return numTokens + overhead.end;
+	}
+
 	protected countObjectTokens(obj: any): number {
 		let numTokens = 0;
 		for (const [key, value] of Object.entries(obj)) {
@@ -71,11 +130,18 @@ export class Cl100KBaseTokenizer implements ITokenizer<OutputMode.OpenAI> {
 				continue;
 			}
 
-			if (typeof value === 'string') {
+			if (key === 'tool_calls' && Array.isArray(value)) {
+				numTokens += this.countToolCallTokens(value);
+			} else if (key === 'tool_call_id') {
+				numTokens += this.baseTokensPerToolCallId;
+			} else if (key === 'image_url' && typeof value === 'object') {
+				numTokens += estimateImageTokens(value as OpenAI.ChatCompletionContentPartImage.ImageURL);
+			} else if (key === 'file_data' && typeof value === 'string') {
+				// Documents are not sent to the model in their encoded form
+				numTokens += this.documentTokenLength(value);
+			} else if (typeof value === 'string') {
 				numTokens += this.tokenize(value).length;
 			} else if (value) {
-				// TODO@roblourens - count tokens for tool_calls correctly
-				// TODO@roblourens - tool_call_id is always 1 token
 				numTokens += this.countObjectTokens(value);
 			}
 
@@ -87,7 +153,30 @@ export class Cl100KBaseTokenizer implements ITokenizer<OutputMode.OpenAI> {
 		return numTokens;
 	}
 
-	private initTokenizer(): TikTokenizer {
+	/**
+	 * Tool calls are shown to the model as their name and arguments. Their IDs
+	 * and types are not part of the prompt.
+	 */
+	private countToolCallTokens(toolCalls: OpenAI.ChatMessageToolCall[]): number {
+		let numTokens = 0;
+		for (const toolCall of toolCalls) {
+			numTokens += this.baseTokensPerToolCall;
+			numTokens += this.tokenize(toolCall.function.name).length;
+			numTokens += this.tokenize(toolCall.function.arguments).length;
+		}
+		return numTokens;
+	}
+
+	/**
+	 * Inline text documents are counted as their text. Other formats are
+	 * extracted by the provider, so their cost can't be known here.
+	 */
+	private documentTokenLength(url: string): number {
+		const match = /^data:text\/[^;,]+;base64,(.*)$/s.exec(url);
+		return match ? this.tokenize(Buffer.from(match[1], 'base64').toString('utf8')).length : 0;
+	}
+
+	protected initTokenizer(): TikTokenizer {
 		return createTokenizer(
 			// This file is copied to `dist` via the `build/postinstall.ts` script
 			join(__dirname, './cl100k_base.tiktoken'),
@@ -97,3 +186,14 @@ export class Cl100KBaseTokenizer implements ITokenizer<OutputMode.OpenAI> {
 		);
 	}
 }
+
+/** Reads a JSON Schema node as an object, or an empty one if it isn't. */
+function asObject(value: unknown): Record<string, unknown> {
+	return typeof value === 'object' && value !== null && !Array.isArray(value)
+		? (value as Record<string, unknown>)
+		: {};
+}
+
+function trimPeriod(text: string) {
+	return text.endsWith('.') ? text.slice(0, -1) : text;
+}
@@ -0,0 +1,183 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import { Raw } from '../output/mode';
+
+/** Tokens for a `low` detail image, or the base cost of a `high` detail image. */
+const BASE_TOKENS = 85;
+/** Tokens per 512px tile of a `high` detail image. */
+const TILE_TOKENS = 170;
+/**
+ * Images whose size can't be read are assumed to be the largest possible
+ * after scaling, 768x2048, or 8 tiles.
+ */
+const UNKNOWN_SIZE_TOKENS = BASE_TOKENS + TILE_TOKENS * 8;
+/** Length of base64 data to decode when looking for the header. */
+const HEAD_LENGTH = 64 * 1024;
+
+export interface ImageDimensions {
+	width: number;
+	height: number;
+}
+
+/**
+ * Estimates the tokens an image uses with OpenAI's vision models. `low`
+ * detail images have a fixed cost, while other images are scaled to fit in
+ * 2048x2048 and then to 768px on their shortest side, and cost a fixed
+ * amount per 512px tile.
+ *
+ * See https://platform.openai.com/docs/guides/images-vision#calculating-costs
+ */
+export function estimateImageTokens(image: Raw.ImageURLReference): number {
+	if (image.detail === 'low') {
+		return BASE_TOKENS;
+	}
+
+	const dimensions = getImageDimensions(image.url);
+	if (!dimensions) {
+		return UNKNOWN_SIZE_TOKENS;
+	}
+
+	let { width, height } = dimensions;
+	const fit = Math.min(1, 2048 / Math.max(width, height));
+	width *= fit;
+	height *= fit;
+
+	const shortest = Math.min(1, 768 / Math.min(width, height));
+	width *= shortest;
+	height *= shortest;
+
+	return BASE_TOKENS + TILE_TOKENS * Math.ceil(width / 512) * Math.ceil(height / 512);
+}
+
+/**
+ * Reads the dimensions of a PNG, JPEG, GIF or WebP image from its header.
+ * Returns undefined for images given as URLs, or in other formats.
+ *
+ * @param url A `data:` URL, or raw base64 data.
+ */
+export function getImageDimensions(url: string): ImageDimensions | undefined {
+	if (/^[a-z][a-z0-9+.-]*:/i.test(url) && !url.startsWith('data:')) {
+		return undefined;
+	}
+
+	const base64 = url.slice(url.indexOf(',') + 1);
+	try {
+		// Most formats have their dimensions in the first few bytes, so only
+		// decode the rest if it's needed for a JPEG.
+		const head = decodeBase64(base64.slice(0, HEAD_LENGTH));
+		const dimensions =
+			readPngDimensions(head) ??
+			readGifDimensions(head) ??
+			readWebpDimensions(head) ??
+			readJpegDimensions(head);
+		if (!dimensions && isJpeg(head) && base64.length > HEAD_LENGTH) {
+			return readJpegDimensions(decodeBase64(base64));
+		}
+		return dimensions;
+	} catch {
+		return undefined; // invalid base64
+	}
+}
+
+function decodeBase64(base64: string): Uint8Array {
+	const binary = atob(base64.slice(0, base64.length - (base64.length % 4)));
+	const bytes = new Uint8Array(binary.length);
+	for (let i = 0; i < binary.length; i++) {
+		bytes[i] = binary.charCodeAt(i);
+	}
+	return bytes;
+}
+
+function hasSignature(bytes: Uint8Array, offset: number, signature: string) {
+	for (let i = 0; i < signature.length; i++) {
+		if (bytes[offset + i] !== signature.charCodeAt(i)) {
+			return false;
+		}
+	}
+	return true;
+}
+
+function readPngDimensions(b: Uint8Array): ImageDimensions | undefined {
+	if (b.length < 24 || !hasSignature(b, 0, '\x89PNG\r\n\x1a\n')) {
+		return undefined;
+	}
+
+	// The IHDR chunk always comes first
+	const view = new DataView(b.buffer, b.byteOffset, b.byteLength);
+	return { width: view.getUint32(16), height: view.getUint32(20) };
+}
+
+function readGifDimensions(b: Uint8Array): ImageDimensions | undefined {
+	if (b.length < 10 || !hasSignature(b, 0, 'GIF8')) {
+		return undefined;
+	}
+
+	return { width: b[6] | (b[7] << 8), height: b[8] | (b[9] << 8) };
+}
+
+function readWebpDimensions(b: Uint8Array): ImageDimensions | undefined {
+	if (b.length < 30 || !hasSignature(b, 0, 'RIFF') || !hasSignature(b, 8, 'WEBP')) {
+		return undefined;
+	}
+
+	if (hasSignature(b, 12, 'VP8 ')) {
+		// Lossy: 14-bit dimensions after the frame start code
+		return { width: (b[26] | (b[27] << 8)) & 0x3fff, height: (b[28] | (b[29] << 8)) & 0x3fff };
+	} else if (hasSignature(b, 12, 'VP8L')) {
+		// Lossless: 14-bit dimensions, minus one, packed after the signature byte
+		return {
+			width: 1 + (((b[22] & 0x3f) << 8) | b[21]),
+			height: 1 + (((b[24] & 0x0f) << 10) | (b[23] << 2) | ((b[22] & 0xc0) >> 6)),
+		};
+	} else if (hasSignature(b, 12, 'VP8X')) {
+		// Extended: 24-bit dimensions, minus one
+		return {
+			width: 1 + (b[24] | (b[25] << 8) | (b[26] << 16)),
+			height: 1 + (b[27] | (b[28] << 8) | (b[29] << 16)),
+		};
+	}
+
+	return undefined;
+}
+
+function isJpeg(b: Uint8Array) {
+	return b[0] === 0xff && b[1] === 0xd8;
+}
+
+function readJpegDimensions(b: Uint8Array): ImageDimensions | undefined {
+	if (!isJpeg(b)) {
+		return undefined;
+	}
+
+	// Walk the segments until the start of frame, which holds the dimensions
+	let offset = 2;
+	while (offset + 9 < b.length) {
+		if (b[offset] !== 0xff) {
+			return undefined;
+		}
+
+		const marker = b[offset + 1];
+		if (marker === 0xff) {
+			offset++; // fill byte
+		} else if (marker >= 0xd0 && marker <= 0xd9) {
+			offset += 2; // markers without a length
+		} else if (
+			marker >= 0xc0 &&
+			marker <= 0xcf &&
+			marker !== 0xc4 &&
+			marker !== 0xc8 &&
+			marker !== 0xcc
+		) {
+			return {
+				height: (b[offset + 5] << 8) | b[offset + 6],
+				width: (b[offset + 7] << 8) | b[offset + 8],
+			};
+		} else {
+			offset += 2 + ((b[offset + 2] << 8) | b[offset + 3]);
+		}
+	}
+
+	return undefined;
+}
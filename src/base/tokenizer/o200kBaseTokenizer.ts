@@ -0,0 +1,45 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import {
+	createTokenizer,
+	getRegexByEncoder,
+	getSpecialTokensByEncoder,
+	TikTokenizer,
+} from '@microsoft/tiktokenizer';
+import { join } from 'path';
+import { Cl100KBaseTokenizer } from './cl100kBaseTokenizer';
+
+/**
+ * The O200K BPE tokenizer for the `gpt-4o` family of models. These models
+ * have the same per-message overhead as `gpt-4`, so only the vocabulary and
+ * the overhead of tool definitions differ from {@link Cl100KBaseTokenizer}.
+ *
+ * It's imported from `@vscode/prompt-tsx/tokenizers/o200k`, so that the
+ * vocabulary is only loaded by applications that use it.
+ *
+ * See https://github.com/microsoft/Tokenizer
+ */
+export class O200KBaseTokenizer extends Cl100KBaseTokenizer {
+	public override readonly models = ['gpt-4o', 'gpt-4o-mini', 'gpt-4.1', 'o1', 'o3'];
+
+	protected override readonly toolDefinitionTokens = {
+		perFunction: 7,
+		perParameters: 3,
+		perParameter: 3,
+		perEnum: -3,
+		perEnumValue: 3,
+		end: 12,
+	};
+
+	protected override initTokenizer(): TikTokenizer {
+		return createTokenizer(
+			// This file is copied to `dist` via the `build/postinstall.ts` script
+			join(__dirname, './o200k_base.tiktoken'),
+			getSpecialTokensByEncoder('o200k_base'),
+			getRegexByEncoder('o200k_base'),
+			64000
+		);
+	}
+}
@@ -8,11 +8,12 @@ import type {
 	LanguageModelChatMessage,
 } from '../standalone-types';
 import { ModeToChatMessageType, OutputMode, Raw } from '../output/mode';
+import { estimateImageTokens } from './imageTokens';
 
 /**
  * Represents a tokenizer that can be used to tokenize text in chat messages.
  */
-export interface ITokenizer<M extends OutputMode = OutputMode> {
+export interface ITokenizer<M extends keyof ModeToChatMessageType = keyof ModeToChatMessageType> {
 	/**
 	 * This mode this tokenizer operates on.
 	 */
@@ -30,10 +31,33 @@ export interface ITokenizer<M extends OutputMode = OutputMode> {
 		token?: CancellationToken
 	): Promise<number> | number;
 
+	/**
+	 * Returns the lengths of several parts, in the same order. Tokenizers with
+	 * a cost per call, such as those backed by a remote service, can implement
+	 * this to let the renderer measure many parts at once.
+	 */
+	tokenLengthBatch?(
+		parts: readonly Raw.ChatCompletionContentPart[],
+		token?: CancellationToken
+	): Promise<number[]> | number[];
+
 	/**
 	 * Returns the token length of the given message.
 	 */
 	countMessageTokens(message: ModeToChatMessageType[M]): Promise<number> | number;
+
+	/**
+	 * Returns the token length of the definitions of the given tools. If this
+	 * is not implemented, tools are counted as their serialized JSON.
+	 */
+	countToolTokens?(tools: readonly Raw.ToolDefinition[]): Promise<number> | number;
+
+	/**
+	 * Returns the number of tokens the prompt uses outside of its messages,
+	 * such as the beginning-of-sequence token of a chat template. The renderer
+	 * reserves these from the endpoint's `modelMaxPromptTokens`.
+	 */
+	countPromptOverhead?(token?: CancellationToken): Promise<number> | number;
 }
 
 export class StandaloneTokenizer implements ITokenizer<OutputMode.VSCode> {
@@ -57,6 +81,8 @@ export class StandaloneTokenizer implements ITokenizer<OutputMode.VSCode> {
 	): Promise<number> {
 		if (part.type === Raw.ChatCompletionContentPartKind.Text) {
 			return this.countTokens(part.text, token);
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+			return estimateImageTokens(part.imageUrl);
 		}
 
 		return Promise.resolve(0);
@@ -77,6 +103,8 @@ export class SimpleTokenizer implements ITokenizer<OutputMode.VSCode> {
 	tokenLength(part: Raw.ChatCompletionContentPart): number {
 		if (part.type === Raw.ChatCompletionContentPartKind.Text) {
 			return this.estimateTokenCount(part.text);
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+			return estimateImageTokens(part.imageUrl);
 		}
 		return 0;
 	}
@@ -123,6 +151,8 @@ export class VSCodeTokenizer implements ITokenizer<OutputMode.VSCode> {
 	): Promise<number> {
 		if (part.type === Raw.ChatCompletionContentPartKind.Text) {
 			return this.countTokens(part.text, token);
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+			return estimateImageTokens(part.imageUrl);
 		}
 
 		return Promise.resolve(0);
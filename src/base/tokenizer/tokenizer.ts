@@ -4,11 +4,12 @@
 
 import type { CancellationToken, LanguageModelChatMessage } from '../standalone-types';
 import { ModeToChatMessageType, OutputMode, Raw } from '../output/mode';
+import { estimateImageTokens } from './imageTokens';
 
 /**
  * Represents a tokenizer that can be used to tokenize text in chat messages.
  */
-export interface ITokenizer<M extends OutputMode = OutputMode> {
+export interface ITokenizer<M extends keyof ModeToChatMessageType = keyof ModeToChatMessageType> {
 	/**
 	 * This mode this tokenizer operates on.
 	 */
@@ -26,10 +27,84 @@ export interface ITokenizer<M extends OutputMode = OutputMode> {
 		token?: CancellationToken
 	): Promise<number> | number;
 
+	/**
+	 * Returns the lengths of several parts, in the same order. Tokenizers with
+	 * a cost per call, such as those backed by a remote service, can implement
+	 * this to let the renderer measure many parts at once.
+	 */
+	tokenLengthBatch?(
+		parts: readonly Raw.ChatCompletionContentPart[],
+		token?: CancellationToken
+	): Promise<number[]> | number[];
+
 	/**
 	 * Returns the token length of the given message.
 	 */
 	countMessageTokens(message: ModeToChatMessageType[M]): Promise<number> | number;
+
+	/**
+	 * Returns the token length of the definitions of the given tools. If this
+	 * is not implemented, tools are counted as their serialized JSON.
+	 */
+	countToolTokens?(tools: readonly Raw.ToolDefinition[]): Promise<number> | number;
+
+	/**
+	 * Returns the number of tokens the prompt uses outside of its messages,
+	 * such as the beginning-of-sequence token of a chat template. The renderer
+	 * reserves these from the endpoint's `modelMaxPromptTokens`.
+	 */
+	countPromptOverhead?(token?: CancellationToken): Promise<number> | number;
+}
+
+/**
+ * Measures the token lengths of `parts`, in a single batch if the tokenizer
+ * supports it.
+ */
+export async function tokenLengths(
+	tokenizer: ITokenizer,
+	parts: readonly Raw.ChatCompletionContentPart[],
+	token?: CancellationToken
+): Promise<number[]> {
+	if (!parts.length) {
+		return [];
+	} else if (tokenizer.tokenLengthBatch) {
+		return tokenizer.tokenLengthBatch(parts, token);
+	} else {
+		return Promise.all(parts.map(part => tokenizer.tokenLength(part, token)));
+	}
+}
+
+/**
+ * Counts the tokens used by the definitions of `tools`.
+ */
+export function countToolTokens(
+	tokenizer: ITokenizer,
+	tools: readonly Raw.ToolDefinition[]
+): Promise<number> | number {
+	if (tokenizer.countToolTokens) {
+		return tokenizer.countToolTokens(tools);
+	}
+
+	return tokenizer.tokenLength({
+		type: Raw.ChatCompletionContentPartKind.Text,
+		text: JSON.stringify(tools),
+	});
+}
+
+/**
+ * Counts the tokens `tool` adds to the definitions of other tools. Unlike
+ * {@link countToolTokens}, this excludes overhead that's counted once for
+ * all the tools in a request.
+ */
+export async function countAdditionalToolTokens(
+	tokenizer: ITokenizer,
+	tool: Raw.ToolDefinition
+): Promise<number> {
+	const [alone, twice] = await Promise.all([
+		countToolTokens(tokenizer, [tool]),
+		countToolTokens(tokenizer, [tool, tool]),
+	]);
+	return twice - alone;
 }
 
 export class VSCodeTokenizer implements ITokenizer<OutputMode.VSCode> {
@@ -55,6 +130,8 @@ export class VSCodeTokenizer implements ITokenizer<OutputMode.VSCode> {
 	): Promise<number> {
 		if (part.type === Raw.ChatCompletionContentPartKind.Text) {
 			return this.countTokens(part.text, token);
+		} else if (part.type === Raw.ChatCompletionContentPartKind.Image) {
+			return estimateImageTokens(part.imageUrl);
 		}
 
 		return Promise.resolve(0);
@@ -0,0 +1,42 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+// Entrypoint of the threads started by the WorkerTokenizer
+
+import { parentPort, workerData } from 'worker_threads';
+import { countToolTokens, ITokenizer } from './tokenizer';
+import type {
+	WorkerTokenizerData,
+	WorkerTokenizerRequest,
+	WorkerTokenizerResponse,
+} from './workerTokenizer';
+
+const { module, exportName } = workerData as WorkerTokenizerData;
+const tokenizer: ITokenizer = new (require(module)[exportName])();
+
+parentPort!.on('message', async (requests: WorkerTokenizerRequest[]) => {
+	const responses = await Promise.all(
+		requests.map(async (request): Promise<WorkerTokenizerResponse> => {
+			try {
+				return { id: request.id, result: await handle(request) };
+			} catch (e) {
+				return { id: request.id, error: e instanceof Error ? e.message : String(e) };
+			}
+		})
+	);
+	parentPort!.postMessage(responses);
+});
+
+function handle(request: WorkerTokenizerRequest) {
+	switch (request.method) {
+		case 'tokenLength':
+			return tokenizer.tokenLength(request.arg);
+		case 'countMessageTokens':
+			return tokenizer.countMessageTokens(request.arg);
+		case 'countToolTokens':
+			return countToolTokens(tokenizer, request.arg);
+		case 'countPromptOverhead':
+			return tokenizer.countPromptOverhead?.() ?? 0;
+	}
+}
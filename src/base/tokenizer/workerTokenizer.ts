@@ -0,0 +1,284 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import type { Worker } from 'worker_threads';
+import { ModeToChatMessageType, Raw } from '../output/mode';
+import type { CancellationToken } from '../standalone-types';
+import { ITokenizer } from './tokenizer';
+
+export interface WorkerTokenizerOptions<M extends keyof ModeToChatMessageType> {
+	/**
+	 * Absolute path of the module that exports the tokenizer to run in the
+	 * workers, such as the compiled `cl100kBaseTokenizer` module.
+	 */
+	module: string;
+
+	/**
+	 * Name of the tokenizer class the module exports. It's constructed without
+	 * arguments in each worker.
+	 */
+	exportName: string;
+
+	/**
+	 * The mode of the tokenizer.
+	 */
+	mode: M;
+
+	/**
+	 * Number of workers to run. Defaults to 1.
+	 */
+	poolSize?: number;
+
+	/**
+	 * Node.js options for the workers. Defaults to the options of the current
+	 * process.
+	 */
+	execArgv?: string[];
+}
+
+/** @internal */
+export interface WorkerTokenizerData {
+	module: string;
+	exportName: string;
+}
+
+/** @internal */
+export type WorkerTokenizerCall<
+	M extends keyof ModeToChatMessageType = keyof ModeToChatMessageType
+> =
+	| { method: 'tokenLength'; arg: Raw.ChatCompletionContentPart }
+	| { method: 'countMessageTokens'; arg: ModeToChatMessageType[M] }
+	| { method: 'countToolTokens'; arg: readonly Raw.ToolDefinition[] }
+	| { method: 'countPromptOverhead' };
+
+/** @internal */
+export type WorkerTokenizerRequest<
+	M extends keyof ModeToChatMessageType = keyof ModeToChatMessageType
+> = WorkerTokenizerCall<M> & { id: number };
+
+/** @internal */
+export type WorkerTokenizerResponse =
+	| { id: number; result: number }
+	| { id: number; error: string };
+
+interface PendingRequest {
+	resolve: (length: number) => void;
+	reject: (err: Error) => void;
+}
+
+type QueuedRequest<M extends keyof ModeToChatMessageType> = PendingRequest &
+	WorkerTokenizerRequest<M>;
+
+interface PooledWorker {
+	worker: Worker;
+	pending: Map<number, PendingRequest>;
+}
+
+/**
+ * Runs a tokenizer in a pool of worker threads, so that tokenizing large
+ * prompts does not block the main thread. Requests made in the same turn of
+ * the event loop are sent to the workers in batches.
+ *
+ * Workers are started when they are first needed and don't keep the process
+ * alive while idle. Call {@link dispose} to stop them.
+ */
+export class WorkerTokenizer<M extends keyof ModeToChatMessageType> implements ITokenizer<M> {
+	public readonly mode: M;
+
+	private readonly _workers: PooledWorker[] = [];
+	private readonly _poolSize: number;
+	private _queue: QueuedRequest<M>[] = [];
+	private _flushScheduled = false;
+	private _nextId = 0;
+	private _disposed = false;
+
+	constructor(private readonly _options: WorkerTokenizerOptions<M>) {
+		this.mode = _options.mode;
+		this._poolSize = Math.max(1, _options.poolSize ?? 1);
+	}
+
+	/**
+	 * Measures a part in a worker. If the token is cancelled, this stops
+	 * waiting for the result and rejects with a `CancellationError`.
+	 */
+	tokenLength(part: Raw.ChatCompletionContentPart, token?: CancellationToken): Promise<number> {
+		return this._request({ method: 'tokenLength', arg: part }, token);
+	}
+
+	/**
+	 * Measures several parts. They're sent to the workers together with any
+	 * other requests made in the same turn.
+	 */
+	tokenLengthBatch(
+		parts: readonly Raw.ChatCompletionContentPart[],
+		token?: CancellationToken
+	): Promise<number[]> {
+		return Promise.all(parts.map(part => this.tokenLength(part, token)));
+	}
+
+	countMessageTokens(message: ModeToChatMessageType[M]): Promise<number> {
+		return this._request({ method: 'countMessageTokens', arg: message });
+	}
+
+	/**
+	 * Counts tools in the worker. If the tokenizer there doesn't support this,
+	 * they're counted as their serialized JSON.
+	 */
+	countToolTokens(tools: readonly Raw.ToolDefinition[]): Promise<number> {
+		return this._request({ method: 'countToolTokens', arg: tools });
+	}
+
+	/**
+	 * Counts the prompt overhead in the worker, or 0 if the tokenizer there
+	 * has none.
+	 */
+	countPromptOverhead(token?: CancellationToken): Promise<number> {
+		return this._request({ method: 'countPromptOverhead' }, token);
+	}
+
+	/**
+	 * Stops the workers. Pending requests are rejected.
+	 */
+	dispose(): void {
+		this._disposed = true;
+		const error = new Error('The tokenizer was disposed');
+		for (const request of this._queue) {
+			request.reject(error);
+		}
+		this._queue = [];
+		for (const { worker, pending } of this._workers.splice(0)) {
+			for (const request of pending.values()) {
+				request.reject(error);
+			}
+			worker.terminate();
+		}
+	}
+
+	private _request(call: WorkerTokenizerCall<M>, token?: CancellationToken): Promise<number> {
+		if (this._disposed) {
+			return Promise.reject(new Error('The tokenizer was disposed'));
+		} else if (token?.isCancellationRequested) {
+			return Promise.reject(new CancellationError());
+		}
+
+		return new Promise<number>((resolve, reject) => {
+			const id = this._nextId++;
+			const listener = token?.onCancellationRequested(() => {
+				this._forget(id);
+				reject(new CancellationError());
+			});
+			this._queue.push({
+				...call,
+				id,
+				resolve: length => {
+					listener?.dispose();
+					resolve(length);
+				},
+				reject: err => {
+					listener?.dispose();
+					reject(err);
+				},
+			});
+			if (!this._flushScheduled) {
+				this._flushScheduled = true;
+				setImmediate(() => this._flush());
+			}
+		});
+	}
+
+	/** Stops waiting for a request that is queued or sent to a worker. */
+	private _forget(id: number) {
+		this._queue = this._queue.filter(request => request.id !== id);
+		for (const { worker, pending } of this._workers) {
+			if (pending.delete(id) && !pending.size) {
+				worker.unref();
+			}
+		}
+	}
+
+	/** Splits the queued requests evenly between the workers. */
+	private _flush() {
+		this._flushScheduled = false;
+		const queue = this._queue;
+		this._queue = [];
+		if (!queue.length || this._disposed) {
+			return;
+		}
+
+		while (this._workers.length < Math.min(this._poolSize, queue.length)) {
+			this._workers.push(this._startWorker());
+		}
+
+		const workers = this._workers.slice(0, queue.length);
+		const batchSize = Math.ceil(queue.length / workers.length);
+		for (const [i, { worker, pending }] of workers.entries()) {
+			const batch = queue.slice(i * batchSize, (i + 1) * batchSize);
+			for (const request of batch) {
+				pending.set(request.id, request);
+			}
+			worker.ref();
+			worker.postMessage(batch.map(({ resolve, reject, ...request }) => request));
+		}
+	}
+
+	private _startWorker(): PooledWorker {
+		const workerData: WorkerTokenizerData = {
+			module: this._options.module,
+			exportName: this._options.exportName,
+		};
+		// Loaded lazily so that the library can be bundled for environments without workers
+		const { Worker }: typeof import('worker_threads') = require('worker_threads');
+		const worker = new Worker(require.resolve('./tokenizerWorker'), {
+			workerData,
+			execArgv: this._options.execArgv,
+		});
+		const pooled: PooledWorker = { worker, pending: new Map() };
+		worker.unref();
+
+		worker.on('message', (responses: WorkerTokenizerResponse[]) => {
+			for (const response of responses) {
+				const request = pooled.pending.get(response.id);
+				pooled.pending.delete(response.id);
+				if (!request) {
+					continue;
+				} else if ('error' in response) {
+					request.reject(new Error(response.error));
+				} else {
+					request.resolve(response.result);
+				}
+			}
+
+			// Let the process exit while the worker is idle
+			if (!pooled.pending.size) {
+				worker.unref();
+			}
+		});
+
+		const onExit = (error: Error) => {
+			const index = this._workers.indexOf(pooled);
+			if (index !== -1) {
+				this._workers.splice(index, 1);
+			}
+			for (const request of pooled.pending.values()) {
+				request.reject(error);
+			}
+			pooled.pending.clear();
+		};
+		worker.on('error', onExit);
+		worker.on('exit', code => onExit(new Error(`Tokenizer worker exited with code ${code}`)));
+
+		return pooled;
+	}
+}
+
+/**
+ * Named like VS Code's `CancellationError`, so that the renderer doesn't
+ * annotate it with the element being rendered.
+ */
+class CancellationError extends Error {
+	constructor() {
+		super('Canceled');
+		this.name = 'CancellationError';
+	}
+}
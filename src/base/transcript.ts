@@ -0,0 +1,125 @@
+/*---------------------------------------------------------------------------------------------
+ *  Copyright (c) Microsoft Corporation and GitHub. All rights reserved.
+ *--------------------------------------------------------------------------------------------*/
+
+import { OutputMode, Raw, toMode } from './output/mode';
+import type { RenderPromptResult } from './promptRenderer';
+import type { ITokenizer } from './tokenizer/tokenizer';
+
+export type TranscriptFormat = 'markdown' | 'text';
+
+/**
+ * Formats a rendered prompt as a human-readable transcript, for example to
+ * paste it into a bug report. Each message gets a header with its role and
+ * token count, as measured by the `tokenizer`. Media are shown as
+ * placeholders, and parts that have no text, such as cache breakpoints, are
+ * shown as markers.
+ */
+export async function formatTranscript(
+	result: RenderPromptResult<OutputMode.Raw>,
+	tokenizer: ITokenizer,
+	format: TranscriptFormat = 'markdown'
+): Promise<string> {
+	const sections: string[] = [];
+	for (const message of result.messages) {
+		const tokens = await tokenizer.countMessageTokens(toMode(tokenizer.mode, message));
+		sections.push(formatMessage(message, tokens, format));
+	}
+
+	sections.push(
+		format === 'markdown'
+			? `_Total: ${pluralizeTokens(result.tokenCount)}_`
+			: `Total: ${pluralizeTokens(result.tokenCount)}`
+	);
+
+	return sections.join('\n\n') + '\n';
+}
+
+function formatMessage(message: Raw.ChatMessage, tokens: number, format: TranscriptFormat) {
+	let title = Raw.ChatRole.display(message.role);
+	if (message.role === Raw.ChatRole.Tool) {
+		title += ` for ${message.toolCallId}`;
+	} else if (message.name) {
+		title += ` (${message.name})`;
+	}
+	title += ` · ${pluralizeTokens(tokens)}`;
+
+	const lines = [format === 'markdown' ? `### ${title}` : `=== ${title} ===`, ''];
+	const body = message.content.map(formatPart).join('').trimEnd();
+	if (body) {
+		lines.push(...(format === 'markdown' ? fence(body) : [body]));
+	}
+
+	if (message.role === Raw.ChatRole.Assistant) {
+		for (const toolCall of message.toolCalls ?? []) {
+			lines.push('', `Tool call ${toolCall.function.name} (${toolCall.id}):`);
+			const args = formatArguments(toolCall.function.arguments);
+			lines.push(...(format === 'markdown' ? fence(args, 'json') : [args]));
+		}
+	}
+
+	return lines.join('\n').trimEnd();
+}
+
+function formatPart(part: Raw.ChatCompletionContentPart): string {
+	switch (part.type) {
+		case Raw.ChatCompletionContentPartKind.Text:
+			return part.text;
+		case Raw.ChatCompletionContentPartKind.Image:
+			return `[image: ${describeUrl(part.imageUrl.url)}${
+				part.imageUrl.detail ? `, ${part.imageUrl.detail} detail` : ''
+			}]`;
+		case Raw.ChatCompletionContentPartKind.Document:
+			return `[document: ${part.document.title ?? describeUrl(part.document.url)}, ${
+				part.document.mimeType
+			}]`;
+		case Raw.ChatCompletionContentPartKind.Audio:
+			return `[audio: ${part.audio.format}${
+				part.audio.duration !== undefined ? `, ${part.audio.duration}s` : ''
+			}]`;
+		case Raw.ChatCompletionContentPartKind.Thinking:
+			return part.text ? `[thinking]\n${part.text}\n[/thinking]\n` : '[thinking: redacted]\n';
+		case Raw.ChatCompletionContentPartKind.CacheBreakpoint:
+			return `[cache breakpoint${part.cacheType ? `: ${part.cacheType}` : ''}]`;
+		case Raw.ChatCompletionContentPartKind.Opaque:
+			return `[opaque${part.tokenUsage ? `: ${part.tokenUsage} tokens` : ''}]`;
+		default:
+			return '';
+	}
+}
+
+/**
+ * Wraps `content` in a code fence that is longer than any run of backticks in
+ * it, so that the content can neither close the fence early nor be read as
+ * Markdown headings or lists.
+ */
+function fence(content: string, language = '') {
+	const longestRun = (content.match(/`+/g) ?? []).reduce(
+		(max, run) => Math.max(max, run.length),
+		0
+	);
+	const marker = '`'.repeat(Math.max(3, longestRun + 1));
+	return [marker + language, content, marker];
+}
+
+/** Avoids dumping inline data into the transcript. */
+function describeUrl(url: string) {
+	const match = /^data:([^;,]+)/.exec(url);
+	if (match) {
+		return `inline ${match[1]}`;
+	}
+
+	return /^[a-z][a-z0-9+.-]*:/i.test(url) ? url : 'inline data';
+}
+
+function pluralizeTokens(count: number) {
+	return count === 1 ? '1 token' : `${count} tokens`;
+}
+
+function formatArguments(args: string) {
+	try {
+		return JSON.stringify(JSON.parse(args), null, 2);
+	} catch {
+		return args;
+	}
+}
@@ -77,6 +77,22 @@ declare global {
 				/** Optional implementation-specific cache type */
 				type?: string;
 			};
+
+			/**
+			 * Reasoning from a previous assistant turn. Reasoning models may
+			 * require this to be sent back verbatim, such as in multi-turn tool
+			 * use. Output modes that cannot represent reasoning omit it.
+			 */
+			thinking: {
+				/** The reasoning text or its summary */
+				text: string;
+				/** The signature or encrypted reasoning returned by the provider */
+				signature?: string;
+				/** The provider's ID for the reasoning */
+				id?: string;
+				/** Usual priority value. */
+				priority?: number;
+			};
 		}
 	}
 }
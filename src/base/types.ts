@@ -3,6 +3,7 @@
  *--------------------------------------------------------------------------------------------*/
 
 import { CancellationToken } from './standalone-types';
+import type { PromptContext } from './promptContext';
 import { PromptElement } from './promptElement';
 import { Raw } from './output/mode';
 
@@ -99,6 +100,33 @@ export interface PromptElementCtor<P extends BasePromptElementProps, S> {
 	new (props: P, ...args: any[]): PromptElement<P, S>;
 }
 
+/**
+ * A prompt element that can be used in TSX: either a {@link PromptElementCtor}
+ * class or a {@link FunctionPromptElement}.
+ */
+export type PromptElementType<P extends BasePromptElementProps, S> =
+	| PromptElementCtor<P, S>
+	| FunctionPromptElement<P>;
+
+/**
+ * A prompt element written as a function of its props, for elements that
+ * don't need the {@link PromptElement.prepare prepare} step or state. Its
+ * last argument reads contexts like {@link PromptElement.getContext}:
+ *
+ * ```tsx
+ * const Instructions = (props: { language: string }) => (
+ * 	<SystemMessage>Answer questions about {props.language} code.</SystemMessage>
+ * );
+ * ```
+ */
+export interface FunctionPromptElement<P extends BasePromptElementProps> {
+	(
+		props: PromptElementProps<P>,
+		sizing: PromptSizing,
+		getContext: <T>(context: PromptContext<T>) => T
+	): Promise<PromptPiece | undefined> | PromptPiece | undefined;
+}
+
 export interface RuntimePromptElementProps {
 	children?: PromptPieceChild[];
 }
@@ -106,7 +134,7 @@ export interface RuntimePromptElementProps {
 export type PromptElementProps<T> = T & BasePromptElementProps & RuntimePromptElementProps;
 
 export interface PromptPiece<P extends BasePromptElementProps = any, S = any> {
-	ctor: string | PromptElementCtor<P, S>;
+	ctor: string | PromptElementType<P, S>;
 	props: P;
 	children: PromptPieceChild[];
 }